@@ -0,0 +1,252 @@
+import { configError } from './errors.js'
+import type { ChoiceReference, DependencyGraph, NormalizedChoice, NormalizedGroup } from './types.js'
+
+function describeReference<Value>(reference: ChoiceReference<Value>): string {
+    return typeof reference === 'string'
+        ? `"${reference}"`
+        : `"${String(reference.value)}" in group "${reference.group}"`
+}
+
+/**
+ * Finds the choice a reference points at: by id, or in its group by key (from `getKey`) or value, like choices are
+ * identified elsewhere.
+ */
+function findReferencedIndex<Value>(
+    choices: NormalizedChoice<Value>[],
+    reference: ChoiceReference<Value>,
+    getKey: ((value: Value) => string) | undefined,
+): number {
+    if (typeof reference === 'string') {
+        return choices.findIndex((choice) => choice.id === reference)
+    }
+
+    const key = getKey?.(reference.value)
+    if (key === undefined) {
+        return choices.findIndex((choice) => choice.groupKey === reference.group && choice.value === reference.value)
+    }
+
+    // A choice's id takes precedence over its key, so also compare the key of its value
+    return choices.findIndex(
+        (choice) => choice.groupKey === reference.group && (choice.key === key || getKey!(choice.value) === key),
+    )
+}
+
+/**
+ * Returns the given choice together with everything it requires, directly or indirectly.
+ */
+export function getRequiredClosure(graph: DependencyGraph, index: number): Set<number> {
+    const closure = new Set([index])
+    const pending = [index]
+
+    while (pending.length > 0) {
+        const current = pending.pop()!
+        for (const required of graph.requires[current] ?? []) {
+            if (!closure.has(required)) {
+                closure.add(required)
+                pending.push(required)
+            }
+        }
+    }
+
+    return closure
+}
+
+/**
+ * Resolves the `requires` and `conflictsWith` references of the choices. Choices of a radio group implicitly
+ * conflict with each other.
+ *
+ * With `ignoreUnknown`, references to choices that do not exist (yet, as their group is still loading) are skipped.
+ * With `getKey`, `{ group, value }` references match choices by the key of their value.
+ *
+ * @throws If a reference points at no choice, if requirements form a cycle, or if a choice requires choices that
+ * conflict with each other (or with itself), since such a choice could never be selected
+ */
+export function buildDependencyGraph<Value>(
+    choices: NormalizedChoice<Value>[],
+    groups: NormalizedGroup<Value>[],
+    { ignoreUnknown = false, getKey }: { ignoreUnknown?: boolean; getKey?: (value: Value) => string } = {},
+): DependencyGraph {
+    const graph: DependencyGraph = {
+        requires: choices.map(() => []),
+        requiredBy: choices.map(() => []),
+        conflicts: choices.map(() => []),
+    }
+
+    const resolve = (owner: NormalizedChoice<Value>, reference: ChoiceReference<Value>, field: string): number => {
+        const index = findReferencedIndex(choices, reference, getKey)
+        if (index === -1 && !ignoreUnknown) {
+            throw configError(`Unknown choice ${describeReference(reference)} in ${field} of "${owner.name}"`)
+        }
+        return index
+    }
+
+    const addConflict = (a: number, b: number) => {
+        if (!graph.conflicts[a]!.includes(b)) {
+            graph.conflicts[a]!.push(b)
+            graph.conflicts[b]!.push(a)
+        }
+    }
+
+    choices.forEach((choice, index) => {
+        for (const reference of choice.requires ?? []) {
+            const required = resolve(choice, reference, 'requires')
+            if (required === -1) {
+                continue
+            }
+            graph.requires[index]!.push(required)
+            graph.requiredBy[required]!.push(index)
+        }
+
+        for (const reference of choice.conflictsWith ?? []) {
+            const conflicting = resolve(choice, reference, 'conflictsWith')
+            if (conflicting !== -1) {
+                addConflict(index, conflicting)
+            }
+        }
+    })
+
+    for (const group of groups) {
+        if (group.type !== 'radio') {
+            continue
+        }
+
+        const members = choices.flatMap((choice, index) => (choice.groupKey === group.key ? [index] : []))
+        members.forEach((a, i) => members.slice(i + 1).forEach((b) => addConflict(a, b)))
+    }
+
+    // Depth-first search for cycles in the requirements
+    const visiting = new Set<number>()
+    const visited = new Set<number>()
+    const visit = (index: number, path: number[]) => {
+        if (visiting.has(index)) {
+            const cycle = [...path.slice(path.indexOf(index)), index].map((i) => choices[i]!.name)
+            throw configError(`Circular requirement: ${cycle.join(' → ')}`)
+        }
+        if (visited.has(index)) {
+            return
+        }
+
+        visiting.add(index)
+        for (const required of graph.requires[index]!) {
+            visit(required, [...path, index])
+        }
+        visiting.delete(index)
+        visited.add(index)
+    }
+    choices.forEach((_, index) => visit(index, []))
+
+    choices.forEach((choice, index) => {
+        const closure = getRequiredClosure(graph, index)
+        for (const member of closure) {
+            const conflicting = graph.conflicts[member]!.find((other) => closure.has(other))
+            if (conflicting !== undefined) {
+                throw configError(
+                    `"${choice.name}" can never be selected: it requires "${choices[member]!.name}" and "${choices[conflicting]!.name}", which conflict`,
+                )
+            }
+        }
+    })
+
+    return graph
+}
+
+/**
+ * Makes a selection change consistent with the dependency graph:
+ * - deselecting a choice also deselects the choices that require it
+ * - selecting a choice also selects what it requires, and deselects (or, with `'block'`, refuses to select when
+ *   there are) conflicting choices
+ *
+ * A selection is refused when it needs a disabled choice to change. `previous` and `next` must list the same choices
+ * in the same order.
+ *
+ * @returns The consistent choices, and a notice for each change made or refused on the user's behalf
+ */
+export function applyDependencies<Value>(
+    previous: NormalizedChoice<Value>[],
+    next: NormalizedChoice<Value>[],
+    graph: DependencyGraph,
+    conflictResolution: 'deselect' | 'block' = 'deselect',
+): { choices: NormalizedChoice<Value>[]; notices: string[] } {
+    const checked = next.map((choice) => choice.checked)
+    const notices: string[] = []
+    const nameOf = (index: number) => next[index]!.name
+
+    const deselectDependents = (index: number) => {
+        for (const dependent of graph.requiredBy[index] ?? []) {
+            if (checked[dependent]) {
+                checked[dependent] = false
+                notices.push(`Deselected ${nameOf(dependent)} (requires ${nameOf(index)})`)
+                deselectDependents(dependent)
+            }
+        }
+    }
+
+    next.forEach((choice, index) => {
+        if (!choice.checked && previous[index]?.checked) {
+            deselectDependents(index)
+        }
+    })
+
+    next.forEach((choice, index) => {
+        // Skip choices that were already selected, or were just deselected as a dependent
+        if (!checked[index] || previous[index]?.checked) {
+            return
+        }
+
+        // Nothing else changes for choices without dependencies, which is most of them in large lists
+        if (!graph.requires[index]?.length && !graph.conflicts[index]?.length) {
+            return
+        }
+
+        const closure = getRequiredClosure(graph, index)
+        const unavailable = [...closure].find((i) => !checked[i] && next[i]!.disabled)
+        if (unavailable !== undefined) {
+            checked[index] = false
+            notices.push(`Cannot select ${nameOf(index)}: requires ${nameOf(unavailable)}, which is unavailable`)
+            return
+        }
+
+        const conflicting = [...new Set([...closure].flatMap((i) => graph.conflicts[i] ?? []))].filter(
+            (i) => checked[i] && !closure.has(i),
+        )
+        if (conflicting.length > 0) {
+            const locked = conflicting.find((i) => next[i]!.disabled)
+            if (conflictResolution === 'block' || locked !== undefined) {
+                checked[index] = false
+                notices.push(`Cannot select ${nameOf(index)}: conflicts with ${nameOf(locked ?? conflicting[0]!)}`)
+                return
+            }
+
+            for (const other of conflicting) {
+                checked[other] = false
+                notices.push(`Deselected ${nameOf(other)} (conflicts with ${nameOf(index)})`)
+                deselectDependents(other)
+            }
+        }
+
+        for (const required of closure) {
+            if (!checked[required]) {
+                checked[required] = true
+                notices.push(`Also selected ${nameOf(required)} (required by ${nameOf(index)})`)
+            }
+        }
+    })
+
+    const choices = next.map((choice, index) =>
+        choice.checked === checked[index] ? choice : { ...choice, checked: checked[index]! },
+    )
+
+    return { choices, notices }
+}
+
+/**
+ * Whether every selected choice has its requirements selected and no selected choices conflict.
+ */
+export function satisfiesDependencies<Value>(choices: NormalizedChoice<Value>[], graph: DependencyGraph): boolean {
+    return choices.every(
+        (choice, index) =>
+            !choice.checked ||
+            ((graph.requires[index] ?? []).every((i) => choices[i]?.checked) &&
+                (graph.conflicts[index] ?? []).every((i) => !choices[i]?.checked)),
+    )
+}
@@ -0,0 +1,32 @@
+/**
+ * A problem with the prompt's configuration. Errors stop the prompt from starting; warnings only do with `strict`.
+ */
+export interface ConfigIssue {
+    severity: 'error' | 'warning'
+    message: string
+}
+
+/**
+ * Thrown when the prompt starts with a configuration it cannot work with, listing every problem found.
+ */
+export class GroupedCheckboxConfigError extends Error {
+    readonly issues: ConfigIssue[]
+
+    constructor(issues: ConfigIssue[]) {
+        super(
+            issues.length === 1
+                ? `Invalid config: ${issues[0]!.message}`
+                : `Invalid config:\n${issues.map((issue) => `- ${issue.message}`).join('\n')}`,
+        )
+        this.name = 'GroupedCheckboxConfigError'
+        this.issues = issues
+    }
+}
+
+/**
+ * A {@link GroupedCheckboxConfigError} for a single error, found outside of {@link validateConfig}, e.g. while
+ * resolving key bindings or choice dependencies.
+ */
+export function configError(message: string): GroupedCheckboxConfigError {
+    return new GroupedCheckboxConfigError([{ severity: 'error', message }])
+}
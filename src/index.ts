@@ -1,13 +1,11 @@
 import {
     createPrompt,
     isBackspaceKey,
-    isDownKey,
-    isEnterKey,
     isSpaceKey,
     isTabKey,
-    isUpKey,
     makeTheme,
     Separator,
+    useEffect,
     useKeypress,
     useMemo,
     usePagination,
@@ -19,305 +17,803 @@ import {
 } from '@inquirer/core'
 import type { Context } from '@inquirer/type'
 import { styleText } from 'node:util'
+import { GroupedCheckboxConfigError } from './errors.js'
+import { describeKeys, matchesAction, matchesKeyBinding, resolveKeyBindings } from './keybindings.js'
+import { GroupedSelectionModel } from './model.js'
+import {
+    deleteBackward,
+    deleteForward,
+    deleteWordBackward,
+    insertText,
+    isPrintable,
+    moveCursor,
+} from './query-input.js'
+import { formatQueryTerm, highlightMatches, parseSearchQuery } from './search.js'
 import { defaultTheme, type GroupedCheckboxTheme } from './theme.js'
-import type { GroupedCheckboxConfig, GroupedSelections, Item, NormalizedChoice } from './types.js'
+import type {
+    Group,
+    GroupedCheckboxConfig,
+    GroupedSelections,
+    GroupLoadState,
+    Item,
+    KeyAction,
+    SearchInput,
+} from './types.js'
 import { isGroupHeader } from './types.js'
 import {
-    buildSelections,
-    filterBySearch,
-    findFirstSelectableIndex,
-    findNextSelectableIndex,
-    getCurrentGroup,
+    describeGroupLimits,
+    diffSelections,
+    findChoiceByPrefix,
+    findGroupBelowMin,
+    getChoicesLoaders,
+    getGroupSelectionState,
     getGroupStats,
+    getLoadedState,
+    getParentGroup,
+    isSameChoice,
     isSelectableItem,
-    normalizeGroups,
+    resolveGroups,
+    retainSelectedChoices,
 } from './utils.js'
+import { assertValidConfig } from './validation.js'
 
 interface ExtendedKey extends KeypressEvent {
     shift: boolean
+    meta?: boolean
     sequence?: string
 }
 
+const DEFAULT_SEARCH_DEBOUNCE = 300
+
+// Milliseconds after which the next letter starts a new type-ahead prefix
+const TYPE_AHEAD_RESET = 1000
+
+const BRACKETED_PASTE_ON = '\u001b[?2004h'
+const BRACKETED_PASTE_OFF = '\u001b[?2004l'
+
+/** Leading whitespace for an item nested `depth` levels deep */
+function indent(depth: number): string {
+    return '  '.repeat(depth)
+}
+
+/** The message shown for a failed load or search; for a config error, without its "Invalid config" prefix */
+function describeError(error: unknown): string {
+    if (error instanceof GroupedCheckboxConfigError) {
+        return error.issues.map((issue) => issue.message).join('; ')
+    }
+
+    return error instanceof Error ? error.message : String(error)
+}
+
 const groupedCheckbox: <Value>(
     config: GroupedCheckboxConfig<Value>,
     context?: Context,
 ) => Promise<GroupedSelections<Value>> = createPrompt(
     <Value>(config: GroupedCheckboxConfig<Value>, done: (value: GroupedSelections<Value>) => void) => {
-        const { normalizedGroups: initialGroups, flatChoices: initialChoices } = useMemo(
-            () => normalizeGroups(config.groups),
-            [config.groups],
+        // Report configuration problems before anything is shown
+        const configWarnings = useMemo(() => assertValidConfig(config), [])
+
+        // With a source, typing fetches results instead of filtering locally
+        const searchable = config.searchable || config.source !== undefined
+        const [sourceGroups, setSourceGroups] = useState<Array<Group<Value>> | undefined>(undefined)
+        const groups = sourceGroups ?? config.groups
+
+        const vim = config.navigationMode === 'vim'
+        const bindings = useMemo(
+            () => resolveKeyBindings(config.keybindings, { searchable, navigationMode: config.navigationMode }),
+            [config.keybindings],
         )
 
-        const [status, setStatus] = useState<Status>('idle')
-        const [choices, setChoices] = useState<NormalizedChoice<Value>[]>(
-            initialChoices.filter(
-                (item): item is NormalizedChoice<Value> => !Separator.isSeparator(item) && !isGroupHeader(item),
-            ),
+        // In vim mode, letters are commands until `/` starts typing a search
+        const [typingSearch, setTypingSearch] = useState(false)
+        const typesIntoSearch = searchable && (!vim || typingSearch)
+
+        const loaders = useMemo(() => getChoicesLoaders(config.groups), [config.groups])
+        const [loadStates, setLoadStates] = useState<ReadonlyMap<string, GroupLoadState<Value>>>(
+            () => new Map([...loaders.keys()].map((key) => [key, { status: 'loading' }])),
         )
-        const [searchQuery, setSearchQuery] = useState('')
+        const isLoading = [...loadStates.values()].some((state) => state.status === 'loading')
+
+        const [status, setStatus] = useState<Status>('idle')
         const [errorMessage, setErrorMessage] = useState<string | undefined>(undefined)
-        const [cursorIndex, setCursorIndex] = useState(0)
+        const [notices, setNotices] = useState<string[]>([])
+        const [statusMessage, setStatusMessage] = useState<string | undefined>(undefined)
+
+        // Configuration warnings, shown in the prompt until the first keypress instead of being written around it
+        const [warnings, setWarnings] = useState(() => configWarnings.map((issue) => issue.message))
+
+        // The selection, search, cursor and collapsed groups, which everything below renders and updates
+        const [model, setModel] = useState(
+            () =>
+                new GroupedSelectionModel<Value>({
+                    groups,
+                    loadStates,
+                    getKey: config.getKey,
+                    searchMode: config.searchMode,
+                    sortByScore: config.sortByScore,
+                    searchFields: config.searchFields,
+                    querySyntax: config.querySyntax,
+                    // The source has already done the filtering
+                    filter: config.source ? () => true : config.filter,
+                    conflictResolution: config.conflictResolution,
+                    partialGroupToggle: config.partialGroupToggle,
+                    historySize: config.historySize,
+                    // Choices may refer to choices that are not in the results
+                    ignoreUnknownReferences: config.source !== undefined,
+                }),
+        )
+
+        // The model as read and updated within a keypress, which may update it more than once
+        const modelRef = useRef(model)
+        modelRef.current = model
+
+        /** Shows the updated model, with the notices and error of the action that updated it */
+        const updateModel = (next: GroupedSelectionModel<Value>) => {
+            if (next === modelRef.current) return
+
+            modelRef.current = next
+            setModel(next)
+            setNotices(next.notices)
+            if (next.error) {
+                setErrorMessage(next.error)
+            }
+        }
 
         const theme = makeTheme<GroupedCheckboxTheme>(defaultTheme, config.theme?.checkbox)
+        const pageSize = config.pageSize ?? 15
         const prefix = usePrefix({ status, theme })
 
-        const { filteredChoices, filteredGroups } = useMemo(
-            () => filterBySearch(choices, initialGroups, searchQuery),
-            [choices, initialGroups, searchQuery],
-        )
+        // The start of a choice name typed so far, and when its last letter was typed
+        const typeAheadRef = useRef({ prefix: '', time: 0 })
+        const typeAhead = searchable || vim ? false : (config.typeAhead ?? 'shortcuts')
 
-        // Use ref to track current cursor for keypress handler
-        const cursorRef = useRef(cursorIndex)
-        cursorRef.current = cursorIndex
+        // Whether the previous key was a first g in vim mode, waiting for a second one to jump to the top
+        const pendingGRef = useRef(false)
 
-        const choicesRef = useRef(choices)
-        choicesRef.current = choices
+        // Whether the previous key typed a character into the search, so Space can separate query terms
+        const typingRef = useRef(false)
 
-        const searchRef = useRef(searchQuery)
-        searchRef.current = searchQuery
+        // Text pasted so far, while the terminal is sending a bracketed paste
+        const pasteRef = useRef<string | undefined>(undefined)
 
-        const filteredChoicesRef = useRef(filteredChoices)
-        filteredChoicesRef.current = filteredChoices
+        // Ask the terminal to bracket pastes, so that a pasted query is inserted at once instead of as keypresses
+        useEffect((rl) => {
+            if (!searchable) return
 
-        const currentGroup = useMemo(() => getCurrentGroup(cursorIndex, filteredGroups), [cursorIndex, filteredGroups])
+            const write = (sequence: string) => {
+                rl.output.unmute()
+                rl.output.write(sequence)
+                rl.output.mute()
+            }
+            write(BRACKETED_PASTE_ON)
+            return () => write(BRACKETED_PASTE_OFF)
+        }, [])
 
-        const currentGroupRef = useRef(currentGroup)
-        currentGroupRef.current = currentGroup
+        const loadStatesRef = useRef(loadStates)
+        loadStatesRef.current = loadStates
 
-        useKeypress((event) => {
-            const key = event as ExtendedKey
-            if (status !== 'idle') return
+        const loadGroup = (key: string) => {
+            const loader = loaders.get(key)
+            if (!loader) return
 
-            setErrorMessage(undefined)
+            const update = (state: GroupLoadState<Value>) => {
+                loadStatesRef.current = new Map(loadStatesRef.current).set(key, state)
+                setLoadStates(loadStatesRef.current)
+            }
 
-            if (isEnterKey(key)) {
-                const selections = buildSelections(choicesRef.current, initialGroups)
+            if (loadStatesRef.current.get(key)?.status !== 'loading') {
+                update({ status: 'loading' })
+            }
 
-                if (config.required) {
-                    const hasSelection = Object.values(selections).some((arr) => arr.length > 0)
-                    if (!hasSelection) {
-                        setErrorMessage('At least one selection is required')
-                        return
-                    }
+            const load = async () => {
+                try {
+                    const loaded = await (typeof loader === 'function' ? loader() : loader)
+                    update(
+                        getLoadedState(config.groups, loadStatesRef.current, key, loaded, {
+                            getKey: config.getKey,
+                            ignoreUnknownReferences: config.source !== undefined,
+                        }),
+                    )
+                } catch (error) {
+                    update({ status: 'failed', error: describeError(error) })
                 }
+            }
+            void load()
+        }
 
-                if (config.validate) {
-                    const result = config.validate(selections)
-                    if (result instanceof Promise) {
-                        setStatus('loading')
-                        result.then((validation) => {
-                            if (validation === true) {
-                                setStatus('done')
-                                done(selections)
-                            } else {
-                                setStatus('idle')
-                                setErrorMessage(typeof validation === 'string' ? validation : 'Invalid selection')
-                            }
-                        })
-                        return
-                    }
-                    if (result !== true) {
-                        setErrorMessage(typeof result === 'string' ? result : 'Invalid selection')
-                        return
+        useEffect(() => {
+            loaders.forEach((_, key) => loadGroup(key))
+        }, [])
+
+        // Show the groups that finished loading or came from the source, keeping the cursor on the same item
+        const modelGroupsRef = useRef({ groups, loadStates })
+        useEffect(() => {
+            if (modelGroupsRef.current.groups === groups && modelGroupsRef.current.loadStates === loadStates) return
+            modelGroupsRef.current = { groups, loadStates }
+
+            // Effects are batched, so a submit waiting for this load must not read the model from the state
+            modelRef.current = modelRef.current.withGroups(groups, loadStates)
+            setModel(modelRef.current)
+        }, [groups, loadStates])
+
+        // Fetch results from the source as the query changes, cancelling the request for the previous query
+        const [sourceState, setSourceState] = useState<{ status: 'idle' | 'searching' | 'failed'; error?: string }>({
+            status: config.source ? 'searching' : 'idle',
+        })
+        useEffect(() => {
+            const source = config.source
+            if (!source) return
+
+            const controller = new AbortController()
+            setSourceState({ status: 'searching' })
+
+            const search = async () => {
+                try {
+                    const results = await source(model.query, { signal: controller.signal })
+                    if (controller.signal.aborted) return
+                    const selected = modelRef.current.choices.filter((choice) => choice.checked)
+                    const nextGroups = retainSelectedChoices(results, selected, modelRef.current.groups, {
+                        getKey: config.getKey,
+                    })
+                    // Results the model cannot list, like choices with duplicate ids, fail the search
+                    resolveGroups(nextGroups, loadStatesRef.current, {
+                        getKey: config.getKey,
+                        ignoreUnknownReferences: true,
+                    })
+                    setSourceGroups(nextGroups)
+                    setSourceState({ status: 'idle' })
+                } catch (error) {
+                    if (controller.signal.aborted) return
+                    setSourceState({ status: 'failed', error: describeError(error) })
+                }
+            }
+            const timer = setTimeout(() => void search(), config.searchDebounce ?? DEFAULT_SEARCH_DEBOUNCE)
+
+            return () => {
+                clearTimeout(timer)
+                controller.abort()
+            }
+        }, [model.query])
+
+        // Animate the spinners of loading groups and searches like the prefix's
+        const isSearching = sourceState.status === 'searching'
+        const [spinnerFrame, setSpinnerFrame] = useState(0)
+        useEffect(() => {
+            if (!isLoading && !isSearching) return
+
+            let frame = 0
+            const timer = setInterval(() => {
+                frame = (frame + 1) % theme.spinner.frames.length
+                setSpinnerFrame(frame)
+            }, theme.spinner.interval)
+            return () => clearInterval(timer)
+        }, [isLoading, isSearching])
+
+        // A promise cannot be loaded again, only a function can be called again
+        const isRetryable = (key: string) =>
+            loadStatesRef.current.get(key)?.status === 'failed' && typeof loaders.get(key) === 'function'
+        const retryKey = bindings.retry[0]
+
+        const retryFailedGroups = () => {
+            loadStatesRef.current.forEach((_, key) => {
+                if (isRetryable(key)) {
+                    loadGroup(key)
+                }
+            })
+        }
+
+        // Readline suspends the process on Ctrl+Z unless something listens for it
+        useEffect((rl) => {
+            const isCtrlZ = (binding: string) => matchesKeyBinding({ name: 'z', ctrl: true }, binding)
+            if (!Object.values(bindings).flat().some(isCtrlZ)) return
+
+            const ignore = () => {}
+            rl.on('SIGTSTP', ignore)
+            return () => {
+                rl.removeListener('SIGTSTP', ignore)
+            }
+        }, [])
+
+        const updateSearch = (next: SearchInput) => {
+            updateModel(modelRef.current.setSearch(next.query, next.cursor))
+        }
+
+        /** Checks the selections and resolves the prompt with them, or shows why they are invalid */
+        const submit = () => {
+            const { choices, groups: normalizedGroups, selections } = modelRef.current
+
+            if (config.required) {
+                const hasSelection = Object.values(selections).some((arr) => arr.length > 0)
+                if (!hasSelection) {
+                    setErrorMessage('At least one selection is required')
+                    return
+                }
+            }
+
+            const groupBelowMin = findGroupBelowMin(choices, normalizedGroups)
+            if (groupBelowMin) {
+                setErrorMessage(`Select at least ${groupBelowMin.min} in ${groupBelowMin.label}`)
+                return
+            }
+
+            if (config.validate) {
+                const result = config.validate(selections)
+                if (result instanceof Promise) {
+                    setStatus('loading')
+                    result.then((validation) => {
+                        if (validation === true) {
+                            setStatus('done')
+                            done(selections)
+                        } else {
+                            setStatus('idle')
+                            setErrorMessage(typeof validation === 'string' ? validation : 'Invalid selection')
+                        }
+                    })
+                    return
+                }
+                if (result !== true) {
+                    setErrorMessage(typeof result === 'string' ? result : 'Invalid selection')
+                    return
+                }
+            }
+
+            setStatus('done')
+            done(selections)
+        }
+
+        // Submit once the groups that were loading when Enter was pressed have settled
+        const [awaitingLoads, setAwaitingLoads] = useState(false)
+        useEffect(() => {
+            if (awaitingLoads && !isLoading) {
+                setAwaitingLoads(false)
+                setStatus('idle')
+                submit()
+            }
+        }, [awaitingLoads, isLoading])
+
+        /**
+         * Calls the `onChange`, `onCursorChange` and `onSearchChange` callbacks for what a keypress changed. An error
+         * one of them throws is shown instead of ending the prompt.
+         */
+        const notifyChanges = (previous: GroupedSelectionModel<Value>, next: GroupedSelectionModel<Value>) => {
+            const notify = (callback: () => void) => {
+                try {
+                    callback()
+                } catch (error) {
+                    setErrorMessage(error instanceof Error ? error.message : String(error))
+                }
+            }
+
+            const { onChange, onCursorChange, onSearchChange } = config
+            if (onChange && previous.choices !== next.choices) {
+                const diff = diffSelections(previous.choices, next.choices)
+                if (diff.selected.length > 0 || diff.deselected.length > 0) {
+                    notify(() => onChange(next.selections, diff))
+                }
+            }
+
+            // The cursor is on a choice or, when this is undefined, on a group header
+            const activeChoice = (model: GroupedSelectionModel<Value>) => {
+                const item = model.activeItem
+                return item && isSelectableItem(item) && !isGroupHeader(item) ? item : undefined
+            }
+            const before = activeChoice(previous)
+            const after = activeChoice(next)
+            const cursorMoved =
+                before && after
+                    ? !isSameChoice(before, after)
+                    : before !== after || previous.currentGroup?.key !== next.currentGroup?.key
+            if (onCursorChange && cursorMoved) {
+                notify(() => onCursorChange(after, next.currentGroup))
+            }
+
+            if (onSearchChange && previous.query !== next.query) {
+                notify(() => onSearchChange(next.query))
+            }
+        }
+
+        const handleKeypress = (key: ExtendedKey) => {
+            if (status !== 'idle') return
+
+            // Collect a bracketed paste and insert it as one edit, so pasted spaces and line breaks don't act as keys
+            if (searchable && key.name === 'paste-start') {
+                pasteRef.current = ''
+                return
+            }
+            if (pasteRef.current !== undefined) {
+                if (key.name === 'paste-end') {
+                    updateSearch(insertText(modelRef.current.search, pasteRef.current))
+                    pasteRef.current = undefined
+                } else {
+                    pasteRef.current += key.sequence ?? ''
+                }
+                return
+            }
+
+            setErrorMessage(undefined)
+            setNotices([])
+            setStatusMessage(undefined)
+            setWarnings([])
+
+            const wasTyping = typingRef.current
+            typingRef.current = false
+
+            const wasPendingG = pendingGRef.current
+            pendingGRef.current = false
+
+            // Type-ahead: letters continuing a recently typed prefix always extend it; others start a new one, unless
+            // they are bound to an action and shortcuts take precedence
+            const previousTypeAhead = typeAheadRef.current
+            typeAheadRef.current = { prefix: '', time: 0 }
+            if (typeAhead && key.sequence && isPrintable(key.sequence) && !/\s/.test(key.sequence) && !key.meta) {
+                const now = Date.now()
+                const continuing = previousTypeAhead.prefix !== '' && now - previousTypeAhead.time < TYPE_AHEAD_RESET
+                const isShortcut =
+                    /^[1-9]$/.test(key.sequence) ||
+                    Object.values(bindings)
+                        .flat()
+                        .some((b) => matchesKeyBinding(key, b))
+
+                if (continuing || typeAhead === 'typeAhead' || !isShortcut) {
+                    const prefix = (continuing ? previousTypeAhead.prefix : '') + key.sequence
+                    typeAheadRef.current = { prefix, time: now }
+                    const index = findChoiceByPrefix(modelRef.current.items, modelRef.current.cursor, prefix)
+                    if (index !== -1) {
+                        updateModel(modelRef.current.moveCursorTo(index))
                     }
+                    return
+                }
+            }
+
+            // Vim search input: text goes into the query, Enter or Escape goes back to the list
+            if (typingSearch) {
+                if (key.name === 'escape' || matchesKeyBinding(key, 'enter')) {
+                    setTypingSearch(false)
+                    return
                 }
+                if (key.sequence && !key.ctrl && !isTabKey(key) && isPrintable(key.sequence)) {
+                    updateSearch(insertText(modelRef.current.search, key.sequence))
+                    return
+                }
+            }
 
-                setStatus('done')
-                done(selections)
+            if (vim && matchesKeyBinding(key, 'g')) {
+                if (wasPendingG) {
+                    updateModel(modelRef.current.moveCursorToFirst())
+                } else {
+                    pendingGRef.current = true
+                }
                 return
             }
 
-            if (isUpKey(key)) {
-                const newIndex = findNextSelectableIndex(filteredChoices, cursorRef.current, -1)
-                setCursorIndex(newIndex)
+            if (searchable && matchesAction(key, bindings, 'search')) {
+                setTypingSearch(true)
                 return
             }
 
-            if (isDownKey(key)) {
-                const newIndex = findNextSelectableIndex(filteredChoices, cursorRef.current, 1)
-                setCursorIndex(newIndex)
+            if (matchesAction(key, bindings, 'nextMatch') || matchesAction(key, bindings, 'prevMatch')) {
+                updateModel(modelRef.current.moveCursorToMatch(matchesAction(key, bindings, 'nextMatch') ? 1 : -1))
                 return
             }
 
-            if (isSpaceKey(key)) {
-                const currentItem = filteredChoices[cursorRef.current]
-                if (!currentItem) return
-
-                // Handle group header toggle
-                if (isGroupHeader(currentItem)) {
-                    const group = filteredGroups.find((g) => g.key === currentItem.groupKey)
-                    if (group) {
-                        // Get visible choices in this group (filtered by search)
-                        const visibleGroupChoices = filteredChoicesRef.current.filter(
-                            (c): c is NormalizedChoice<Value> =>
-                                !Separator.isSeparator(c) &&
-                                !isGroupHeader(c) &&
-                                c.groupKey === group.key &&
-                                !c.disabled,
-                        )
-                        // If there are no visible, enabled choices in this group, do nothing
-                        if (visibleGroupChoices.length === 0) {
-                            return
-                        }
-                        const allVisibleChecked = visibleGroupChoices.every((c) => c.checked)
-                        const visibleValues = new Set(visibleGroupChoices.map((c) => c.value))
-                        // Toggle only the visible choices
-                        setChoices(
-                            choicesRef.current.map((choice) => {
-                                if (
-                                    choice.groupKey === group.key &&
-                                    !choice.disabled &&
-                                    visibleValues.has(choice.value)
-                                ) {
-                                    return { ...choice, checked: !allVisibleChecked }
-                                }
-                                return choice
-                            }),
-                        )
-                    }
+            const activeItem = modelRef.current.activeItem
+
+            // Enter on a group header: expand/collapse it (opt-in), unless a search has expanded everything
+            if (
+                matchesAction(key, bindings, 'submit') &&
+                config.collapseOnEnter &&
+                isGroupHeader(activeItem) &&
+                !modelRef.current.query
+            ) {
+                updateModel(modelRef.current.setCollapsed(activeItem.groupKey, !activeItem.collapsed))
+                return
+            }
+
+            if (matchesAction(key, bindings, 'submit')) {
+                // Wait for loading groups, so that required and validate see all of their choices
+                if (isLoading) {
+                    setStatus('loading')
+                    setAwaitingLoads(true)
                     return
                 }
 
-                // Handle regular choice toggle
-                if (isSelectableItem(currentItem)) {
-                    const newChoices = choicesRef.current.map((choice) => {
-                        if (choice.value === currentItem.value && choice.groupKey === currentItem.groupKey) {
-                            return { ...choice, checked: !choice.checked }
-                        }
-                        return choice
-                    })
-                    setChoices(newChoices)
+                submit()
+                return
+            }
+
+            // Shift+Up/Down: check a range of choices from where the first Shift+arrow was pressed
+            if ((key.name === 'up' || key.name === 'down') && key.shift) {
+                updateModel(modelRef.current.extendRange(key.name === 'up' ? -1 : 1))
+                return
+            }
+
+            if (matchesAction(key, bindings, 'up')) {
+                updateModel(modelRef.current.moveCursor(-1))
+                return
+            }
+
+            if (matchesAction(key, bindings, 'down')) {
+                updateModel(modelRef.current.moveCursor(1))
+                return
+            }
+
+            if (key.name === 'pageup' || key.name === 'pagedown') {
+                updateModel(modelRef.current.moveCursorBy(key.name === 'pageup' ? -1 : 1, pageSize))
+                return
+            }
+
+            if (matchesAction(key, bindings, 'first')) {
+                updateModel(modelRef.current.moveCursorToFirst())
+                return
+            }
+
+            if (matchesAction(key, bindings, 'last')) {
+                updateModel(modelRef.current.moveCursorToLast())
+                return
+            }
+
+            // 1-9 or Alt+1-9 (only the latter while digits are typed into the query): jump to the Nth top-level group
+            if (/^[1-9]$/.test(key.name) && !key.ctrl && (key.meta || !typesIntoSearch)) {
+                const group = modelRef.current.visibleGroups.filter((g) => g.parentKey === undefined)[
+                    Number(key.name) - 1
+                ]
+                if (group) {
+                    updateModel(modelRef.current.moveCursorToGroup(group.key))
                 }
                 return
             }
 
-            // Search input (when searchable) - handle first to capture alphanumeric keys
-            if (config.searchable) {
+            if (modelRef.current.paint !== undefined && key.name === 'escape') {
+                updateModel(modelRef.current.stopMarking())
+                return
+            }
+
+            // With the query syntax, Space right after typing separates terms; pressing it again toggles
+            if (
+                matchesAction(key, bindings, 'toggle') &&
+                isSpaceKey(key) &&
+                typesIntoSearch &&
+                config.querySyntax &&
+                wasTyping
+            ) {
+                updateSearch(insertText(modelRef.current.search, ' '))
+                return
+            }
+
+            if (matchesAction(key, bindings, 'toggle')) {
+                updateModel(modelRef.current.toggle())
+                return
+            }
+
+            // Search input (when searchable) - handle first to capture typed characters
+            if (searchable && matchesAction(key, bindings, 'clearSearch')) {
+                updateModel(modelRef.current.setSearch(''))
+                return
+            }
+
+            if (typesIntoSearch) {
                 if (isBackspaceKey(key)) {
-                    setSearchQuery(searchRef.current.slice(0, -1))
-                    setCursorIndex(0)
+                    updateSearch(deleteBackward(modelRef.current.search))
                     return
                 }
 
-                if (key.name === 'escape') {
-                    setSearchQuery('')
-                    setCursorIndex(findFirstSelectableIndex(choicesRef.current))
+                if (key.name === 'delete') {
+                    updateSearch(deleteForward(modelRef.current.search))
                     return
                 }
 
-                // Alphanumeric input (except when Ctrl/Shift is held for shortcuts, or Tab)
+                if (key.ctrl && key.name === 'w') {
+                    updateSearch(deleteWordBackward(modelRef.current.search))
+                    return
+                }
+
+                // Left/Right move within the query while there is one; otherwise they expand and collapse groups
                 if (
-                    key.sequence &&
-                    !key.ctrl &&
+                    modelRef.current.query &&
                     !key.shift &&
-                    !isTabKey(key) &&
-                    /^[a-zA-Z0-9\-_./\s]$/.test(key.sequence)
+                    !key.ctrl &&
+                    (key.name === 'left' || key.name === 'right')
                 ) {
-                    setSearchQuery(searchRef.current + key.sequence)
-                    setCursorIndex(0)
+                    updateSearch(moveCursor(modelRef.current.search, key.name === 'left' ? -1 : 1))
+                    return
+                }
+
+                // Any printable text (except when Ctrl is held for shortcuts)
+                if (key.sequence && !key.ctrl && !isTabKey(key) && isPrintable(key.sequence)) {
+                    updateSearch(insertText(modelRef.current.search, key.sequence))
+                    typingRef.current = !/\s/.test(key.sequence)
                     return
                 }
             }
 
-            // Global toggle all: Ctrl+A (or 'a' when not searchable) - operates on filtered/visible choices only
-            if ((key.name === 'a' && key.ctrl) || (key.name === 'a' && !key.shift && !config.searchable)) {
-                const visibleChoices = filteredChoicesRef.current.filter(
-                    (c): c is NormalizedChoice<Value> => !Separator.isSeparator(c) && !isGroupHeader(c) && !c.disabled,
-                )
-                const allVisibleChecked = visibleChoices.every((c) => c.checked)
-                const visibleValues = new Set(visibleChoices.map((c) => c.value))
-                setChoices(
-                    choicesRef.current.map((choice) => {
-                        if (!choice.disabled && visibleValues.has(choice.value)) {
-                            return { ...choice, checked: !allVisibleChecked }
-                        }
-                        return choice
-                    }),
-                )
+            if (matchesAction(key, bindings, 'undo') || matchesAction(key, bindings, 'redo')) {
+                const isUndo = matchesAction(key, bindings, 'undo')
+                const { history } = modelRef.current
+                const change = isUndo ? history.undo.at(-1) : history.redo.at(-1)
+                if (!change) {
+                    setStatusMessage(isUndo ? 'Nothing to undo' : 'Nothing to redo')
+                    return
+                }
+
+                updateModel(isUndo ? modelRef.current.undo() : modelRef.current.redo())
+                setStatusMessage(`${isUndo ? 'Undid' : 'Redid'}: ${change.label}`)
                 return
             }
 
-            // Global invert: Ctrl+I (or 'i' when not searchable) - operates on filtered/visible choices only
-            if ((key.name === 'i' && key.ctrl) || (key.name === 'i' && !key.shift && !config.searchable)) {
-                const visibleChoices = filteredChoicesRef.current.filter(
-                    (c): c is NormalizedChoice<Value> => !Separator.isSeparator(c) && !isGroupHeader(c) && !c.disabled,
-                )
-                const visibleValues = new Set(visibleChoices.map((c) => c.value))
-                setChoices(
-                    choicesRef.current.map((choice) => {
-                        if (!choice.disabled && visibleValues.has(choice.value)) {
-                            return { ...choice, checked: !choice.checked }
-                        }
-                        return choice
-                    }),
-                )
+            // Show only selected
+            if (matchesAction(key, bindings, 'onlySelected')) {
+                updateModel(modelRef.current.toggleOnlySelected())
                 return
             }
 
-            // Tab: jump to next group
-            if (isTabKey(key) && !key.shift) {
-                if (currentGroupRef.current && filteredGroups.length > 1) {
-                    const currentGroupIdx = filteredGroups.findIndex((g) => g.key === currentGroupRef.current!.key)
-                    const nextGroupIdx = (currentGroupIdx + 1) % filteredGroups.length
-                    const nextGroup = filteredGroups[nextGroupIdx]
-                    if (nextGroup) {
-                        setCursorIndex(nextGroup.startIndex)
+            // Mark mode: toggles the current choice and paints its new state onto each choice the cursor moves to,
+            // until pressed again
+            if (matchesAction(key, bindings, 'mark')) {
+                updateModel(modelRef.current.toggleMarking())
+                return
+            }
+
+            // Retry failed loads
+            if (matchesAction(key, bindings, 'retry')) {
+                retryFailedGroups()
+                return
+            }
+
+            // Global toggle all - operates on filtered/visible choices only
+            if (matchesAction(key, bindings, 'toggleAll')) {
+                updateModel(modelRef.current.toggleAll())
+                return
+            }
+
+            // Global invert - operates on filtered/visible choices only
+            if (matchesAction(key, bindings, 'invert')) {
+                updateModel(modelRef.current.invert())
+                return
+            }
+
+            // Jump to next sibling group
+            if (matchesAction(key, bindings, 'nextGroup')) {
+                updateModel(modelRef.current.nextGroup())
+                return
+            }
+
+            // Jump to previous sibling group
+            if (matchesAction(key, bindings, 'prevGroup')) {
+                updateModel(modelRef.current.prevGroup())
+                return
+            }
+
+            // Shift+Left / Shift+Right: collapse / expand all groups
+            if ((key.name === 'left' || key.name === 'right') && key.shift) {
+                updateModel(key.name === 'left' ? modelRef.current.collapseAll() : modelRef.current.expandAll())
+                return
+            }
+
+            const group = modelRef.current.currentGroup
+
+            // Right: expand a collapsed group, or step into an expanded one
+            if (key.name === 'right') {
+                if (isGroupHeader(activeItem)) {
+                    if (activeItem.collapsed) {
+                        updateModel(modelRef.current.setCollapsed(activeItem.groupKey, false))
+                    } else if (group && group.endIndex > modelRef.current.cursor) {
+                        updateModel(modelRef.current.moveCursor(1))
                     }
                 }
                 return
             }
 
-            // Shift+Tab: jump to previous group
-            if (isTabKey(key) && key.shift) {
-                if (currentGroupRef.current && filteredGroups.length > 1) {
-                    const currentGroupIdx = filteredGroups.findIndex((g) => g.key === currentGroupRef.current!.key)
-                    const prevGroupIdx = currentGroupIdx === 0 ? filteredGroups.length - 1 : currentGroupIdx - 1
-                    const prevGroup = filteredGroups[prevGroupIdx]
-                    if (prevGroup) {
-                        setCursorIndex(prevGroup.startIndex)
+            // Left: collapse an expanded group, otherwise jump to the header of the enclosing group,
+            // or to the parent group from a header
+            if (key.name === 'left') {
+                if (isGroupHeader(activeItem) && !activeItem.collapsed && !modelRef.current.query) {
+                    updateModel(modelRef.current.setCollapsed(activeItem.groupKey, true))
+                    return
+                }
+
+                if (group) {
+                    const target = isGroupHeader(activeItem)
+                        ? getParentGroup(group, modelRef.current.visibleGroups)
+                        : group
+                    if (target) {
+                        updateModel(modelRef.current.moveCursorToGroup(target.key))
                     }
                 }
                 return
             }
+        }
+
+        useKeypress((event) => {
+            const previous = modelRef.current
+            handleKeypress(event as ExtendedKey)
+            notifyChanges(previous, modelRef.current)
         })
 
-        const page = usePagination<Item<Value>>({
-            items: filteredChoices,
-            active: cursorIndex,
-            pageSize: config.pageSize ?? 15,
+        // Only items within a page of the cursor (wrapping around the ends) can be on screen. The others are left out,
+        // which pagination skips, instead of rendering thousands of lines that would be thrown away.
+        const isNearCursor = (index: number) => {
+            const distance = Math.abs(index - model.cursor)
+            return Math.min(distance, model.items.length - distance) <= pageSize
+        }
+
+        // Explains selections made or refused because of choice dependencies, below the active row, whether the action
+        // was on a choice or a group header
+        const describeNotices = (depth: number) =>
+            notices.map((notice) => `\n${indent(depth)}     ${theme.style.description(notice)}`).join('')
+
+        const page = usePagination<Item<Value> | undefined>({
+            items: model.items.map((item, index) => (isNearCursor(index) ? item : undefined)),
+            active: model.cursor,
+            pageSize,
             renderItem: ({ item, isActive }) => {
+                if (!item) {
+                    return ''
+                }
+
                 if (Separator.isSeparator(item)) {
                     return ` ${item.separator}`
                 }
 
                 // Handle group header rendering
                 if (isGroupHeader(item)) {
-                    const group = filteredGroups.find((g) => g.key === item.groupKey)
+                    const group = model.visibleGroups.find((g) => g.key === item.groupKey)
                     const stats = group ? getGroupStats(group) : { selected: 0, total: 0 }
-                    const allChecked = stats.total > 0 && stats.selected === stats.total
-                    const checkbox = allChecked ? theme.icon.checked : theme.icon.unchecked
+                    const selection = getGroupSelectionState(stats)
+                    let checkbox = {
+                        none: theme.icon.unchecked,
+                        partial: theme.icon.indeterminate,
+                        all: theme.icon.checked,
+                    }[selection]
+                    if (group?.type === 'radio') {
+                        checkbox = stats.selected > 0 ? theme.icon.radioChecked : theme.icon.radioUnchecked
+                    }
                     const cursor = isActive ? theme.icon.cursor : ' '
-                    const headerText = theme.style.groupHeader(item.label, item.icon)
+                    const collapsedIcon = item.collapsed ? `${theme.icon.collapsed} ` : ''
+                    const headerText = theme.style.groupHeader(item.label, item.icon, selection)
                     const statsText = config.hideGroupTotals
                         ? ''
                         : styleText('dim', ` (${stats.selected}/${stats.total})`)
+                    const limits = group ? describeGroupLimits(group) : undefined
+                    const limitsText = limits ? styleText('dim', ` [${limits}]`) : ''
+                    const line = `${indent(item.depth)}${cursor} ${checkbox} ${collapsedIcon}${headerText}`
+                    const explanation = isActive ? describeNotices(item.depth) : ''
+
+                    if (item.loadStatus === 'loading') {
+                        return `${line} ${theme.spinner.frames[spinnerFrame]} ${styleText('dim', 'Loading…')}${explanation}`
+                    }
 
-                    return `${cursor} ${checkbox} ${headerText}${statsText}`
+                    if (item.loadStatus === 'failed') {
+                        const retryHint =
+                            isRetryable(item.groupKey) && retryKey ? styleText('dim', ` (${retryKey} to retry)`) : ''
+                        return `${line}\n${indent(item.depth)}     ${styleText('red', `Failed to load: ${item.loadError}`)}${retryHint}${explanation}`
+                    }
+
+                    return `${line}${statsText}${limitsText}${explanation}`
                 }
 
-                const checkbox = item.checked ? theme.icon.checked : theme.icon.unchecked
+                const depth = model.visibleGroups.find((g) => g.key === item.groupKey)?.depth ?? 0
+
+                const isRadio = model.isRadioGroup(item.groupKey)
+                const checkedIcon = isRadio ? theme.icon.radioChecked : theme.icon.checked
+                const uncheckedIcon = isRadio ? theme.icon.radioUnchecked : theme.icon.unchecked
+                const checkbox = item.checked ? checkedIcon : uncheckedIcon
                 const cursor = isActive ? theme.icon.cursor : ' '
                 const color = item.checked ? theme.style.highlight : (text: string) => text
+                const label = highlightMatches(item.name, model.getMatchIndices(item.name), theme.style.match)
                 const name = item.disabled
                     ? theme.style.disabledChoice(
-                          `${item.name}${typeof item.disabled === 'string' ? ` (${item.disabled})` : ''}`,
+                          `${label}${typeof item.disabled === 'string' ? ` (${item.disabled})` : ''}`,
                       )
-                    : color(item.name)
+                    : color(label)
 
-                let line = `  ${cursor} ${checkbox} ${name}`
+                let line = `${indent(depth)}  ${cursor} ${checkbox} ${name}`
 
                 if (item.description && isActive) {
-                    line += `\n     ${theme.style.description(item.description)}`
+                    line += `\n${indent(depth)}     ${theme.style.description(item.description)}`
+                }
+
+                if (isActive) {
+                    line += describeNotices(depth)
                 }
 
                 return line
@@ -328,40 +824,93 @@ const groupedCheckbox: <Value>(
         let message = config.message
 
         if (status === 'done') {
-            const selections = buildSelections(choices, initialGroups)
-            const totalSelected = Object.values(selections).reduce((sum, arr) => sum + arr.length, 0)
+            const totalSelected = Object.values(model.selections).reduce((sum, arr) => sum + arr.length, 0)
             message += styleText('cyan', ` ${totalSelected} item${totalSelected !== 1 ? 's' : ''} selected`)
             return `${prefix} ${message}`
         }
 
         // Add running total to message if not hidden
         if (!config.hideOverallTotal) {
-            const totalSelected = choices.filter((c) => c.checked).length
-            const totalItems = choices.filter((c) => !c.disabled).length
-            message += styleText('dim', ` (${totalSelected}/${totalItems})`)
+            const { selected, total } = model.stats
+            message += styleText('dim', ` (${selected}/${total})`)
         }
 
         let output = `${prefix} ${message}`
 
-        if (config.searchable && searchQuery) {
-            output += ` ${theme.style.searchQuery(`[${searchQuery}]`)}`
+        if (model.onlySelected) {
+            output += ` ${theme.style.searchQuery('[selected only]')}`
+        }
+
+        if (model.paint !== undefined) {
+            output += ` ${theme.style.searchQuery(model.paint ? '[marking: select]' : '[marking: deselect]')}`
+        }
+
+        if (typingSearch) {
+            // Show the vim search being typed after its slash, with the text cursor
+            const end = moveCursor(model.search, 1).cursor
+            const before = model.query.slice(0, model.search.cursor)
+            const current = styleText('inverse', model.query.slice(model.search.cursor, end) || ' ')
+            output += ` ${theme.style.searchQuery(`/${before}${current}${model.query.slice(end)}`)}`
+        } else if (searchable && model.query && model.search.cursor < model.query.length) {
+            // Show the text cursor while it is inside the query
+            const end = moveCursor(model.search, 1).cursor
+            const before = model.query.slice(0, model.search.cursor)
+            const current = styleText('inverse', model.query.slice(model.search.cursor, end))
+            output += ` ${theme.style.searchQuery(`[${before}${current}${model.query.slice(end)}]`)}`
+        } else if (searchable && model.query) {
+            // With the query syntax, show each parsed term as its own chip
+            const terms = config.querySyntax ? parseSearchQuery(model.query) : undefined
+            const chips = terms?.length ? terms.map(formatQueryTerm) : [model.query]
+            output += ` ${chips.map((chip) => theme.style.searchQuery(`[${chip}]`)).join(' ')}`
         }
 
-        if (filteredChoices.length === 0) {
-            output += `\n${styleText('dim', '  No matches found')}`
+        if (isSearching) {
+            output += ` ${theme.spinner.frames[spinnerFrame]} ${styleText('dim', 'Searching…')}`
+        } else if (sourceState.status === 'failed') {
+            output += `\n${styleText('red', `  Search failed: ${sourceState.error}`)}`
+        }
+
+        if (model.items.length === 0) {
+            output += `\n${styleText('dim', model.onlySelected && !model.query ? '  Nothing selected' : '  No matches found')}`
         } else {
             output += `\n${page}`
         }
 
-        // Help text
+        if (statusMessage) {
+            output += `\n${styleText('dim', `  ${statusMessage}`)}`
+        }
+
+        for (const warning of warnings) {
+            output += `\n${styleText('yellow', `  Warning: ${warning}`)}`
+        }
+
+        // Help text, for typing a vim search or otherwise for the list
         if (theme.helpMode === 'always' || (theme.helpMode === 'auto' && status === 'idle')) {
-            const toggleKey = config.searchable ? 'ctrl+a' : 'a'
-            const invertKey = config.searchable ? 'ctrl+i' : 'i'
+            // Each action with its keys from the active bindings, while it applies and is bound
+            const keysOf = (...actions: KeyAction[]) =>
+                actions
+                    .map((action) => describeKeys(bindings, action))
+                    .filter(Boolean)
+                    .join('/')
+            const entries: Array<[label: string, keys: string, applies?: boolean]> = typingSearch
+                ? [['Back to the list', 'enter/escape']]
+                : [
+                      ['Select', keysOf('toggle')],
+                      ['Toggle all', keysOf('toggleAll')],
+                      ['Invert', keysOf('invert')],
+                      ['Expand/collapse', '→/←'],
+                      [model.onlySelected ? 'Show all' : 'Selected only', keysOf('onlySelected')],
+                      [model.paint === undefined ? 'Mark' : 'Stop marking', keysOf('mark')],
+                      ['Retry', keysOf('retry'), [...loadStates.keys()].some(isRetryable)],
+                      ['Undo', keysOf('undo'), model.history.undo.length > 0],
+                      ['Search', keysOf('search')],
+                      ['Next/previous match', keysOf('nextMatch', 'prevMatch'), Boolean(model.query)],
+                  ]
             const helpText = [
-                'Select: space',
-                `Toggle all: ${toggleKey}`,
-                `Invert: ${invertKey}`,
-                config.searchable ? 'Type to search' : '',
+                ...entries
+                    .filter(([, keys, applies = true]) => keys && applies)
+                    .map(([label, keys]) => `${label}: ${keys}`),
+                typesIntoSearch ? 'Type to search' : '',
             ]
                 .filter(Boolean)
                 .join(' • ')
@@ -377,14 +926,32 @@ const groupedCheckbox: <Value>(
 )
 
 export default groupedCheckbox
-export type { GroupedCheckboxTheme } from './theme.js'
+export { GroupedSelectionModel } from './model.js'
+export type { GroupedSelectionAction, GroupedSelectionOptions, GroupedSelectionSnapshot } from './model.js'
+export { GroupedCheckboxConfigError } from './errors.js'
+export type { ConfigIssue } from './errors.js'
+export type { GroupedCheckboxTheme, GroupSelectionState } from './theme.js'
 export { isGroupHeader } from './types.js'
 export type {
     Choice,
+    ChoiceFilter,
+    ChoiceIdentity,
+    ChoicesLoader,
+    ChoiceReference,
     Group,
     GroupedCheckboxConfig,
     GroupedSelections,
     GroupHeader,
+    GroupLoadState,
+    GroupsSource,
+    Item,
+    KeyAction,
+    KeyBindings,
     NormalizedChoice,
     NormalizedGroup,
+    SearchField,
+    SearchInput,
+    SelectionChange,
+    SelectionDiff,
+    SelectionHistory,
 } from './types.js'
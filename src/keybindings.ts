@@ -0,0 +1,205 @@
+import { configError } from './errors.js'
+import type { KeyAction, KeyBindings } from './types.js'
+
+/**
+ * A key binding like `'ctrl+shift+z'`, taken apart.
+ */
+interface KeyDescriptor {
+    name: string
+    ctrl: boolean
+    shift: boolean
+    meta: boolean
+}
+
+/** Keys for every action, as resolved from the defaults and the `keybindings` option */
+export type ResolvedKeyBindings = Record<KeyAction, string[]>
+
+interface KeyBindingOptions {
+    searchable?: boolean
+    navigationMode?: 'default' | 'vim'
+}
+
+// Other names terminals and people use for the same keys
+const KEY_NAME_ALIASES: Record<string, string> = { return: 'enter', esc: 'escape' }
+
+function normalizeKeyName(name: string): string {
+    return KEY_NAME_ALIASES[name] ?? name
+}
+
+/**
+ * Parses a key binding: a key name, optionally preceded by `ctrl`, `shift` and `alt` (or `meta`) modifiers, joined by
+ * `+` in any order and case.
+ */
+export function parseKeyBinding(binding: string): KeyDescriptor {
+    const modifiers = binding.toLowerCase().split('+')
+    const name = modifiers.pop() ?? ''
+
+    return {
+        name: normalizeKeyName(name),
+        ctrl: modifiers.includes('ctrl'),
+        shift: modifiers.includes('shift'),
+        meta: modifiers.includes('meta') || modifiers.includes('alt'),
+    }
+}
+
+function formatKeyDescriptor({ name, ctrl, shift, meta }: KeyDescriptor): string {
+    return [ctrl && 'ctrl', shift && 'shift', meta && 'alt', name].filter(Boolean).join('+')
+}
+
+/**
+ * Whether a keypress matches a key binding like `'ctrl+z'` or `'shift+tab'`, with exactly the binding's modifiers.
+ * Keys that terminals don't name, like `/`, match by the character they type.
+ */
+export function matchesKeyBinding(
+    key: { name?: string; ctrl?: boolean; shift?: boolean; meta?: boolean; sequence?: string },
+    binding: string,
+): boolean {
+    const descriptor = parseKeyBinding(binding)
+    const name = key.name || key.sequence
+
+    return (
+        name !== undefined &&
+        normalizeKeyName(name) === descriptor.name &&
+        Boolean(key.ctrl) === descriptor.ctrl &&
+        Boolean(key.shift) === descriptor.shift &&
+        Boolean(key.meta) === descriptor.meta
+    )
+}
+
+/**
+ * The keys of each action unless configured otherwise. When searchable, letter keys are typed into the search, so
+ * the letter shortcuts need Ctrl, except in vim mode where typing a search starts with `/`.
+ */
+export function getDefaultKeyBindings({
+    searchable = false,
+    navigationMode = 'default',
+}: KeyBindingOptions = {}): ResolvedKeyBindings {
+    const vim = navigationMode === 'vim'
+    const letter = (name: string) => (searchable && !vim ? `ctrl+${name}` : name)
+
+    return {
+        up: vim ? ['up', 'k'] : ['up'],
+        down: vim ? ['down', 'j'] : ['down'],
+        // gg also jumps to the first item in vim mode
+        first: ['home'],
+        last: vim ? ['end', 'shift+g'] : ['end'],
+        toggle: vim ? ['space', 'x'] : ['space'],
+        toggleAll: [letter('a')],
+        invert: [letter('i')],
+        nextGroup: ['tab'],
+        prevGroup: ['shift+tab'],
+        clearSearch: ['escape', 'ctrl+u'],
+        search: vim && searchable ? ['/'] : [],
+        nextMatch: vim && searchable ? ['n'] : [],
+        prevMatch: vim && searchable ? ['shift+n'] : [],
+        submit: ['enter'],
+        onlySelected: [letter('s')],
+        mark: [letter('v')],
+        retry: [letter('r')],
+        undo: ['ctrl+z'],
+        redo: ['ctrl+y'],
+    }
+}
+
+/**
+ * Keys the prompt handles itself rather than through an action, with what they do, so that they cannot be bound.
+ */
+function getReservedKeys({ searchable = false, navigationMode = 'default' }: KeyBindingOptions): Map<string, string> {
+    const vim = navigationMode === 'vim'
+    const reserved = new Map<string, string>([
+        ['pageup', 'paging'],
+        ['pagedown', 'paging'],
+        ['shift+up', 'range selection'],
+        ['shift+down', 'range selection'],
+        ['left', 'collapsing groups'],
+        ['right', 'expanding groups'],
+        ['shift+left', 'collapsing all groups'],
+        ['shift+right', 'expanding all groups'],
+    ])
+
+    for (let digit = 1; digit <= 9; digit++) {
+        reserved.set(`alt+${digit}`, 'jumping to a group')
+        // When searchable outside of vim mode, plain digits are typed into the search instead
+        if (!searchable || vim) {
+            reserved.set(String(digit), 'jumping to a group')
+        }
+    }
+
+    if (vim) {
+        reserved.set('g', 'gg in vim mode')
+    }
+
+    if (searchable) {
+        reserved.set('backspace', 'editing the search')
+        reserved.set('delete', 'editing the search')
+        reserved.set('ctrl+w', 'editing the search')
+    }
+
+    return reserved
+}
+
+/**
+ * Combines the default keys with the configured ones, which replace the defaults of their action.
+ *
+ * @throws If a key is bound to more than one action or to a key the prompt handles itself, like PageUp or `g` in vim
+ * mode (which is taken by gg), or, when searchable outside of vim mode, a key that types text is bound to an action
+ */
+export function resolveKeyBindings(
+    keybindings: KeyBindings = {},
+    options: KeyBindingOptions = {},
+): ResolvedKeyBindings {
+    const resolved = getDefaultKeyBindings(options)
+    const reserved = getReservedKeys(options)
+    const vim = options.navigationMode === 'vim'
+
+    for (const [action, keys] of Object.entries(keybindings) as Array<[KeyAction, string | string[] | undefined]>) {
+        if (keys !== undefined) {
+            resolved[action] = typeof keys === 'string' ? [keys] : [...keys]
+        }
+    }
+
+    const owners = new Map<string, KeyAction>()
+    for (const [action, keys] of Object.entries(resolved) as Array<[KeyAction, string[]]>) {
+        for (const key of keys) {
+            const descriptor = parseKeyBinding(key)
+            const normalized = formatKeyDescriptor(descriptor)
+
+            const use = reserved.get(normalized)
+            if (use !== undefined) {
+                throw configError(`Key "${key}" of ${action} is taken by ${use}`)
+            }
+
+            if (options.searchable && !vim && descriptor.name.length === 1 && !descriptor.ctrl && !descriptor.meta) {
+                throw configError(
+                    `Key "${key}" of ${action} would be typed into the search; bind it with ctrl or alt when searchable`,
+                )
+            }
+
+            const owner = owners.get(normalized)
+            if (owner !== undefined && owner !== action) {
+                throw configError(`Key "${key}" is bound to both ${owner} and ${action}`)
+            }
+            owners.set(normalized, action)
+        }
+    }
+
+    return resolved
+}
+
+/**
+ * Whether a keypress triggers the given action.
+ */
+export function matchesAction(
+    key: { name?: string; ctrl?: boolean; shift?: boolean; meta?: boolean; sequence?: string },
+    bindings: ResolvedKeyBindings,
+    action: KeyAction,
+): boolean {
+    return bindings[action].some((binding) => matchesKeyBinding(key, binding))
+}
+
+/**
+ * The keys of an action for showing in the help line, e.g. `ctrl+a` or `escape/ctrl+u`. Empty for unbound actions.
+ */
+export function describeKeys(bindings: ResolvedKeyBindings, action: KeyAction): string {
+    return bindings[action].join('/')
+}
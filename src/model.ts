@@ -0,0 +1,847 @@
+import { applyDependencies, satisfiesDependencies } from './dependencies.js'
+import { getNameMatchIndices } from './search.js'
+import type {
+    ChoiceIdentity,
+    DependencyGraph,
+    Group,
+    GroupedCheckboxConfig,
+    GroupedSelections,
+    GroupLoadState,
+    Item,
+    NormalizedChoice,
+    NormalizedGroup,
+    SearchInput,
+    SearchOptions,
+    SelectionHistory,
+} from './types.js'
+import { isGroupHeader } from './types.js'
+import {
+    applyGroupLimits,
+    buildSelections,
+    carryOverSelections,
+    checkRadioChoice,
+    createChoiceMatcher,
+    createSearchCache,
+    filterBySearch,
+    findFirstSelectableIndex,
+    findItemIndex,
+    findLastSelectableIndex,
+    findNextChoiceIndex,
+    findNextSelectableIndex,
+    findSelectableIndexBy,
+    getChoicesInRange,
+    getCurrentGroup,
+    getParentGroup,
+    getSiblingGroups,
+    isChoiceInGroup,
+    isSameChoice,
+    isSelectableItem,
+    recordSelectionChange,
+    redoSelectionChange,
+    resolveGroups,
+    undoSelectionChange,
+    type SearchCache,
+} from './utils.js'
+
+/**
+ * The options of the prompt that the selection model uses, and how far the groups' choices have loaded.
+ */
+export type GroupedSelectionOptions<Value> = Pick<
+    GroupedCheckboxConfig<Value>,
+    | 'groups'
+    | 'searchMode'
+    | 'sortByScore'
+    | 'searchFields'
+    | 'querySyntax'
+    | 'filter'
+    | 'conflictResolution'
+    | 'partialGroupToggle'
+    | 'historySize'
+    | 'getKey'
+> & {
+    /** Progress of loading the groups with a {@link ChoicesLoader}, whose choices are only listed once loaded */
+    loadStates?: ReadonlyMap<string, GroupLoadState<Value>>
+
+    /** Skip references to choices that are not in `groups`, e.g. when they hold the results of a search */
+    ignoreUnknownReferences?: boolean
+}
+
+/**
+ * The state of a {@link GroupedSelectionModel} as plain data, which can be stored (as JSON too, if the choices' values
+ * can be) and restored with `new GroupedSelectionModel(options, snapshot)`.
+ */
+export interface GroupedSelectionSnapshot<Value> {
+    /** The checked choices */
+    selected: Array<ChoiceIdentity<Value>>
+    search: SearchInput
+    /** Index of the active item in the model's `items` */
+    cursor: number
+    /** Full keys of the collapsed groups */
+    collapsed: string[]
+    onlySelected: boolean
+    history: SelectionHistory<Value>
+}
+
+/**
+ * The actions of a {@link GroupedSelectionModel} as plain objects, for `model.apply(action)`, e.g. as a reducer.
+ */
+export type GroupedSelectionAction =
+    | { type: 'toggle' }
+    | { type: 'toggleGroup'; groupKey: string }
+    | { type: 'toggleAll' }
+    | { type: 'invert' }
+    | { type: 'search'; query: string; cursor?: number }
+    | { type: 'moveCursor'; direction: 1 | -1 }
+    | { type: 'extendRange'; direction: 1 | -1 }
+    | { type: 'moveCursorTo'; index: number }
+    | { type: 'nextGroup' }
+    | { type: 'prevGroup' }
+    | { type: 'setCollapsed'; groupKey: string; collapsed: boolean }
+    | { type: 'toggleOnlySelected' }
+    | { type: 'toggleMarking' }
+    | { type: 'stopMarking' }
+    | { type: 'undo' }
+    | { type: 'redo' }
+
+/** The checked values of each group and the overall counts, kept up to date as the selection changes */
+interface SelectionSummary<Value> {
+    selections: GroupedSelections<Value>
+    selected: number
+    total: number
+}
+
+interface ModelState<Value> {
+    groups: NormalizedGroup<Value>[]
+    choices: NormalizedChoice<Value>[]
+    dependencyGraph: DependencyGraph
+    /** Positions of each group's own choices in `choices` */
+    groupIndices: ReadonlyMap<string, number[]>
+    summary: SelectionSummary<Value>
+    search: SearchInput
+    cursor: number
+    collapsedKeys: ReadonlySet<string>
+    searchOptions: SearchOptions<Value>
+    history: SelectionHistory<Value>
+    /** In mark mode, the selection state painted onto each choice the cursor moves to */
+    paint?: boolean
+    /** Where the current range started, and the choices as they were before it. Any other action ends it. */
+    range?: { anchor: number; baseline: NormalizedChoice<Value>[] }
+    notices: string[]
+    error?: string
+    // Shared by the models derived from one another, as it only holds search results
+    searchCache: SearchCache<Value>
+}
+
+/**
+ * Normalizes the groups and resolves the dependencies of their choices. Choices keep their selection state from
+ * `previous`, and new choices that are pre-selected also select what they require.
+ */
+function loadGroups<Value>(
+    options: GroupedSelectionOptions<Value>,
+    groups: ReadonlyArray<Group<Value>>,
+    loadStates: ReadonlyMap<string, GroupLoadState<Value>>,
+    previous: NormalizedChoice<Value>[],
+): Pick<ModelState<Value>, 'groups' | 'choices' | 'dependencyGraph' | 'groupIndices'> {
+    const { normalizedGroups, choices: configuredChoices, dependencyGraph } = resolveGroups(groups, loadStates, options)
+
+    const baseline = carryOverSelections(
+        previous,
+        configuredChoices.map((choice) => ({ ...choice, checked: false })),
+    )
+    const next = carryOverSelections(previous, configuredChoices)
+
+    const groupIndices = new Map<string, number[]>(normalizedGroups.map((group) => [group.key, []]))
+    configuredChoices.forEach((choice, index) => groupIndices.get(choice.groupKey)?.push(index))
+
+    return {
+        groups: normalizedGroups,
+        choices: applyDependencies(baseline, next, dependencyGraph, options.conflictResolution).choices,
+        dependencyGraph,
+        groupIndices,
+    }
+}
+
+function summarizeSelection<Value>(
+    choices: NormalizedChoice<Value>[],
+    groups: NormalizedGroup<Value>[],
+): SelectionSummary<Value> {
+    return {
+        selections: buildSelections(choices, groups),
+        selected: choices.filter((choice) => choice.checked).length,
+        total: choices.filter((choice) => !choice.disabled).length,
+    }
+}
+
+/**
+ * Updates the summary of `previous` for the choices whose selection changed in `next`, rebuilding the selections of
+ * their groups only, so that the summary does not have to be rebuilt from every choice on each change.
+ */
+function updateSummary<Value>(
+    summary: SelectionSummary<Value>,
+    previous: NormalizedChoice<Value>[],
+    next: NormalizedChoice<Value>[],
+    groupIndices: ReadonlyMap<string, number[]>,
+): SelectionSummary<Value> {
+    if (previous === next) return summary
+
+    let selected = summary.selected
+    const changedGroupKeys = new Set<string>()
+    for (let index = 0; index < next.length; index++) {
+        const choice = next[index]!
+        if (choice.checked !== previous[index]?.checked) {
+            selected += choice.checked ? 1 : -1
+            changedGroupKeys.add(choice.groupKey)
+        }
+    }
+    if (changedGroupKeys.size === 0) return summary
+
+    const selections = { ...summary.selections }
+    for (const key of changedGroupKeys) {
+        const indices = groupIndices.get(key) ?? []
+        selections[key] = indices.filter((index) => next[index]!.checked).map((index) => next[index]!.value)
+    }
+
+    return { selections, selected, total: summary.total }
+}
+
+function createSearchOptions<Value>(
+    options: GroupedSelectionOptions<Value>,
+    onlySelected: boolean,
+): SearchOptions<Value> {
+    return {
+        mode: options.searchMode,
+        sortByScore: options.sortByScore,
+        fields: options.searchFields,
+        syntax: options.querySyntax,
+        filter: options.filter,
+        onlySelected,
+    }
+}
+
+/**
+ * The selection state of grouped choices, with the search, cursor and collapsed groups that decide which of them are
+ * listed, without anything to do with rendering or input. The prompt is drawn from one, and so can other interfaces.
+ *
+ * Models are immutable: every action returns a new model, or the same one when nothing changes. Selection changes
+ * resolve choice dependencies and group limits like in the prompt, and can be undone.
+ */
+export class GroupedSelectionModel<Value> {
+    private readonly options: GroupedSelectionOptions<Value>
+    private readonly state: ModelState<Value>
+    private cachedView?: { filteredChoices: Item<Value>[]; filteredGroups: NormalizedGroup<Value>[] }
+    private cachedRadioGroupKeys?: ReadonlySet<string>
+
+    constructor(options: GroupedSelectionOptions<Value>, snapshot?: GroupedSelectionSnapshot<Value>) {
+        this.options = options
+
+        const loaded = loadGroups(options, options.groups, options.loadStates ?? new Map(), [])
+        let choices = loaded.choices
+        if (snapshot) {
+            const isSelected = createChoiceMatcher(snapshot.selected)
+            choices = choices.map((choice) =>
+                choice.checked === isSelected(choice) ? choice : { ...choice, checked: !choice.checked },
+            )
+        }
+
+        this.state = {
+            ...loaded,
+            choices,
+            summary: summarizeSelection(choices, loaded.groups),
+            search: snapshot?.search ?? { query: '', cursor: 0 },
+            cursor: snapshot?.cursor ?? 0,
+            collapsedKeys: new Set(
+                snapshot?.collapsed ?? loaded.groups.filter((group) => group.collapsed).map((group) => group.key),
+            ),
+            searchOptions: createSearchOptions(options, snapshot?.onlySelected ?? false),
+            history: snapshot?.history ?? { undo: [], redo: [] },
+            notices: [],
+            searchCache: createSearchCache(),
+        }
+        this.settleCursor()
+    }
+
+    /** All groups, normalized, including nested ones */
+    get groups(): NormalizedGroup<Value>[] {
+        return this.state.groups
+    }
+
+    /** All choices with their selection state, in the order of the groups */
+    get choices(): NormalizedChoice<Value>[] {
+        return this.state.choices
+    }
+
+    /** The group headers and choices to list, as filtered by the search and collapsed groups */
+    get items(): Item<Value>[] {
+        return this.view.filteredChoices
+    }
+
+    /** The groups with items to list, with their matching choices and selection counts */
+    get visibleGroups(): NormalizedGroup<Value>[] {
+        return this.view.filteredGroups
+    }
+
+    /** Index of the active item in `items` */
+    get cursor(): number {
+        return this.state.cursor
+    }
+
+    get activeItem(): Item<Value> | undefined {
+        return this.items[this.state.cursor]
+    }
+
+    /** The innermost group containing the active item */
+    get currentGroup(): NormalizedGroup<Value> | undefined {
+        return getCurrentGroup(this.state.cursor, this.visibleGroups)
+    }
+
+    get search(): SearchInput {
+        return this.state.search
+    }
+
+    get query(): string {
+        return this.state.search.query
+    }
+
+    get collapsedKeys(): ReadonlySet<string> {
+        return this.state.collapsedKeys
+    }
+
+    /** Whether only checked choices are listed */
+    get onlySelected(): boolean {
+        return this.state.searchOptions.onlySelected ?? false
+    }
+
+    get history(): SelectionHistory<Value> {
+        return this.state.history
+    }
+
+    /** In mark mode, whether choices the cursor moves to are checked or unchecked, and undefined otherwise */
+    get paint(): boolean | undefined {
+        return this.state.paint
+    }
+
+    /** Selections made or refused on the user's behalf by the last action, because of choice dependencies */
+    get notices(): string[] {
+        return this.state.notices
+    }
+
+    /** Why the last action could not select everything it would have, e.g. because of a group's `max` */
+    get error(): string | undefined {
+        return this.state.error
+    }
+
+    /** The checked values of each group */
+    get selections(): GroupedSelections<Value> {
+        return { ...this.state.summary.selections }
+    }
+
+    /** How many choices are checked, out of the ones that are enabled */
+    get stats(): { selected: number; total: number } {
+        return { selected: this.state.summary.selected, total: this.state.summary.total }
+    }
+
+    isRadioGroup(groupKey: string): boolean {
+        this.cachedRadioGroupKeys ??= new Set(
+            this.state.groups.filter((group) => group.type === 'radio').map((group) => group.key),
+        )
+        return this.cachedRadioGroupKeys.has(groupKey)
+    }
+
+    /** Positions of the characters in a choice's name that the search matched, for highlighting */
+    getMatchIndices(name: string): number[] {
+        return this.query ? getNameMatchIndices(name, this.query, this.state.searchOptions) : []
+    }
+
+    /** The state as plain data, for restoring it later */
+    snapshot(): GroupedSelectionSnapshot<Value> {
+        return {
+            selected: this.state.choices
+                .filter((choice) => choice.checked)
+                .map(({ groupKey, value, key }) => ({ groupKey, value, key })),
+            search: this.state.search,
+            cursor: this.state.cursor,
+            collapsed: [...this.state.collapsedKeys],
+            onlySelected: this.onlySelected,
+            history: this.state.history,
+        }
+    }
+
+    apply(action: GroupedSelectionAction): GroupedSelectionModel<Value> {
+        switch (action.type) {
+            case 'toggle':
+                return this.toggle()
+            case 'toggleGroup':
+                return this.toggleGroup(action.groupKey)
+            case 'toggleAll':
+                return this.toggleAll()
+            case 'invert':
+                return this.invert()
+            case 'search':
+                return this.setSearch(action.query, action.cursor)
+            case 'moveCursor':
+                return this.moveCursor(action.direction)
+            case 'extendRange':
+                return this.extendRange(action.direction)
+            case 'moveCursorTo':
+                return this.moveCursorTo(action.index)
+            case 'nextGroup':
+                return this.nextGroup()
+            case 'prevGroup':
+                return this.prevGroup()
+            case 'setCollapsed':
+                return this.setCollapsed(action.groupKey, action.collapsed)
+            case 'toggleOnlySelected':
+                return this.toggleOnlySelected()
+            case 'toggleMarking':
+                return this.toggleMarking()
+            case 'stopMarking':
+                return this.stopMarking()
+            case 'undo':
+                return this.undo()
+            case 'redo':
+                return this.redo()
+        }
+    }
+
+    /**
+     * Replaces the groups, e.g. when choices finish loading or a search source returns results. Choices that are
+     * still listed keep their selection state, and the cursor stays on the same item.
+     */
+    withGroups(
+        groups: ReadonlyArray<Group<Value>>,
+        loadStates: ReadonlyMap<string, GroupLoadState<Value>> = new Map(),
+    ): GroupedSelectionModel<Value> {
+        const loaded = loadGroups(this.options, groups, loadStates, this.state.choices)
+        return this.update({ ...loaded, summary: summarizeSelection(loaded.choices, loaded.groups) }, this.activeItem)
+    }
+
+    /**
+     * Toggles the active item: a choice, or all of a group's choices matching the search from its header. A radio
+     * choice is selected in place of its siblings.
+     */
+    toggle(): GroupedSelectionModel<Value> {
+        const item = this.activeItem
+        if (!item) return this
+
+        if (isGroupHeader(item)) {
+            return this.toggleGroup(item.groupKey)
+        }
+
+        if (!isSelectableItem(item)) return this
+
+        // Selecting a radio choice again does nothing
+        if (this.isRadioGroup(item.groupKey)) {
+            return item.checked ? this : this.change(checkRadioChoice(this.state.choices, item), 'select').model
+        }
+
+        return this.change(
+            this.state.choices.map((choice) =>
+                isSameChoice(choice, item) ? { ...choice, checked: !choice.checked } : choice,
+            ),
+            item.checked ? 'deselect' : 'select',
+        ).model
+    }
+
+    /**
+     * Checks the enabled choices of a group that match the search, including those of collapsed sub-groups, or
+     * unchecks them when they all are (or, with `partialGroupToggle: 'clear'`, when any are). Clears the selection of
+     * a radio group.
+     */
+    toggleGroup(groupKey: string): GroupedSelectionModel<Value> {
+        const group = this.visibleGroups.find((g) => g.key === groupKey)
+        if (!group) return this
+
+        if (group.type === 'radio') {
+            return this.toggleMatching((choice) => isChoiceInGroup(choice, group) && !choice.disabled, true)
+        }
+
+        const visibleGroupChoices = group.choices.filter((choice) => this.isBulkToggleable(choice))
+        if (visibleGroupChoices.length === 0) return this
+
+        const allVisibleChecked = visibleGroupChoices.every((c) => c.checked)
+        const clearPartial = this.options.partialGroupToggle === 'clear' && visibleGroupChoices.some((c) => c.checked)
+        const isVisible = createChoiceMatcher(visibleGroupChoices)
+        return this.toggleMatching(
+            (choice) => isChoiceInGroup(choice, group) && this.isBulkToggleable(choice) && isVisible(choice),
+            allVisibleChecked || clearPartial,
+        )
+    }
+
+    /** Checks every listed choice (including those in collapsed groups), or unchecks them when they all are */
+    toggleAll(): GroupedSelectionModel<Value> {
+        const visibleChoices = this.getVisibleChoices()
+        const isVisible = createChoiceMatcher(visibleChoices)
+        return this.toggleMatching(
+            (choice) => this.isBulkToggleable(choice) && isVisible(choice),
+            visibleChoices.every((c) => c.checked),
+        )
+    }
+
+    /** Inverts the selection of every listed choice, including those in collapsed groups */
+    invert(): GroupedSelectionModel<Value> {
+        const isVisible = createChoiceMatcher(this.getVisibleChoices())
+        return this.change(
+            this.state.choices.map((choice) =>
+                this.isBulkToggleable(choice) && isVisible(choice) ? { ...choice, checked: !choice.checked } : choice,
+            ),
+            'invert',
+        ).model
+    }
+
+    /** Checks or unchecks a choice, unless it is disabled or a radio choice, which bulk actions leave alone */
+    setChecked(target: NormalizedChoice<Value>, checked: boolean): GroupedSelectionModel<Value> {
+        if (!this.isBulkToggleable(target) || target.checked === checked) return this
+
+        return this.change(
+            this.state.choices.map((choice) => (isSameChoice(choice, target) ? { ...choice, checked } : choice)),
+            checked ? 'select' : 'deselect',
+        ).model
+    }
+
+    /**
+     * Checks the choices `isChecked` returns true for and unchecks the others, resolving choice dependencies and group
+     * limits like any other selection change. `action` names the change in the history, e.g. "select".
+     */
+    updateSelection(
+        isChecked: (choice: NormalizedChoice<Value>, index: number) => boolean,
+        action: string,
+    ): GroupedSelectionModel<Value> {
+        return this.change(
+            this.state.choices.map((choice, index) => {
+                const checked = isChecked(choice, index)
+                return choice.checked === checked ? choice : { ...choice, checked }
+            }),
+            action,
+        ).model
+    }
+
+    /**
+     * Sets the search query, and the position of the text cursor in it, which defaults to its end. A new query moves
+     * the cursor back to the top of the list.
+     */
+    setSearch(query: string, cursor = query.length): GroupedSelectionModel<Value> {
+        return this.update({
+            search: { query, cursor },
+            cursor: query === this.query ? this.state.cursor : 0,
+        })
+    }
+
+    /**
+     * Moves the cursor to the next or previous selectable item, wrapping around the ends of the list. In mark mode,
+     * paints the choice it lands on; group headers are not painted.
+     */
+    moveCursor(direction: 1 | -1): GroupedSelectionModel<Value> {
+        const next = this.moveCursorTo(findNextSelectableIndex(this.items, this.state.cursor, direction))
+        const item = next.activeItem
+        if (this.state.paint === undefined || !item || !isSelectableItem(item) || isGroupHeader(item)) {
+            return next
+        }
+
+        return next.setChecked(item, this.state.paint)
+    }
+
+    /**
+     * Moves the cursor one row and checks every choice between it and where the range started, when the previous
+     * action extended the range too. Choices that drop out of the range as it shrinks get back the state they had
+     * before it started. The range does not wrap around the list.
+     */
+    extendRange(direction: 1 | -1): GroupedSelectionModel<Value> {
+        const { cursor } = this.state
+        const range = this.state.range ?? { anchor: cursor, baseline: this.state.choices }
+        const index = findNextSelectableIndex(this.items, cursor, direction)
+        if ((index - cursor) * direction <= 0) {
+            return this.update({ range })
+        }
+
+        const isInRange = createChoiceMatcher(
+            getChoicesInRange(this.items, range.anchor, index).filter((choice) => this.isBulkToggleable(choice)),
+        )
+        const grows = Math.abs(index - range.anchor) > Math.abs(cursor - range.anchor)
+        const next = this.moveCursorTo(index).updateSelection(
+            (choice, i) => isInRange(choice) || (range.baseline[i]?.checked ?? choice.checked),
+            grows ? 'select' : 'deselect',
+        )
+        return next.update({ range, notices: next.notices, error: next.error })
+    }
+
+    /** Moves the cursor about `distance` items, e.g. a page up or down */
+    moveCursorBy(direction: 1 | -1, distance: number): GroupedSelectionModel<Value> {
+        return this.moveCursorTo(findSelectableIndexBy(this.items, this.state.cursor, direction, distance))
+    }
+
+    moveCursorTo(index: number): GroupedSelectionModel<Value> {
+        return this.update({ cursor: index })
+    }
+
+    moveCursorToFirst(): GroupedSelectionModel<Value> {
+        return this.moveCursorTo(findFirstSelectableIndex(this.items))
+    }
+
+    moveCursorToLast(): GroupedSelectionModel<Value> {
+        return this.moveCursorTo(findLastSelectableIndex(this.items))
+    }
+
+    /** Moves the cursor to the next or previous choice matching the search, when there is one */
+    moveCursorToMatch(direction: 1 | -1): GroupedSelectionModel<Value> {
+        return this.query ? this.moveCursorTo(findNextChoiceIndex(this.items, this.state.cursor, direction)) : this
+    }
+
+    /** Moves the cursor to a group's header */
+    moveCursorToGroup(groupKey: string): GroupedSelectionModel<Value> {
+        const group = this.visibleGroups.find((g) => g.key === groupKey)
+        return group ? this.moveCursorTo(group.startIndex) : this
+    }
+
+    /** Moves the cursor to the header of the next sibling of the current group, wrapping around */
+    nextGroup(): GroupedSelectionModel<Value> {
+        return this.moveToSiblingGroup(1)
+    }
+
+    /** Moves the cursor to the header of the previous sibling of the current group, wrapping around */
+    prevGroup(): GroupedSelectionModel<Value> {
+        return this.moveToSiblingGroup(-1)
+    }
+
+    /**
+     * Collapses or expands a group. The cursor moves to the group's header when the item it was on is hidden.
+     * While searching, every group is expanded regardless.
+     */
+    setCollapsed(groupKey: string, collapsed: boolean): GroupedSelectionModel<Value> {
+        if (this.state.collapsedKeys.has(groupKey) === collapsed) return this
+
+        const collapsedKeys = new Set(this.state.collapsedKeys)
+        if (collapsed) {
+            collapsedKeys.add(groupKey)
+        } else {
+            collapsedKeys.delete(groupKey)
+        }
+
+        const group = this.visibleGroups.find((g) => g.key === groupKey)
+        const hidesCursor =
+            collapsed && group !== undefined && this.cursor > group.startIndex && this.cursor <= group.endIndex
+        return this.update({ collapsedKeys }, hidesCursor ? this.items[group.startIndex] : this.activeItem)
+    }
+
+    /** Collapses every group, moving the cursor to the header of the top-level group it was in */
+    collapseAll(): GroupedSelectionModel<Value> {
+        let target = this.currentGroup
+        while (target?.parentKey !== undefined) {
+            target = getParentGroup(target, this.visibleGroups)
+        }
+
+        return this.update(
+            { collapsedKeys: new Set(this.state.groups.map((g) => g.key)) },
+            target ? this.items[target.startIndex] : undefined,
+        )
+    }
+
+    expandAll(): GroupedSelectionModel<Value> {
+        return this.update({ collapsedKeys: new Set() }, this.activeItem)
+    }
+
+    /** Switches between listing every choice and only the checked ones, moving the cursor back to the top */
+    toggleOnlySelected(): GroupedSelectionModel<Value> {
+        return this.update({ searchOptions: createSearchOptions(this.options, !this.onlySelected), cursor: 0 })
+    }
+
+    /**
+     * Starts mark mode, toggling the active choice and painting its new state onto each choice the cursor moves to.
+     * Starting on a group header paints checks. In mark mode, stops it.
+     */
+    toggleMarking(): GroupedSelectionModel<Value> {
+        if (this.state.paint !== undefined) {
+            return this.stopMarking()
+        }
+
+        const item = this.activeItem
+        const choice = item && isSelectableItem(item) && !isGroupHeader(item) ? item : undefined
+        const paint = choice ? !choice.checked : true
+        const next = choice ? this.setChecked(choice, paint) : this
+        return next.update({ paint, notices: next.notices, error: next.error })
+    }
+
+    stopMarking(): GroupedSelectionModel<Value> {
+        return this.state.paint === undefined ? this : this.update({ paint: undefined })
+    }
+
+    /** Reverts the most recent selection change, if any */
+    undo(): GroupedSelectionModel<Value> {
+        const result = undoSelectionChange(this.state.history, this.state.choices)
+        return result ? this.update({ choices: result.choices, history: result.history }) : this
+    }
+
+    /** Applies the most recently undone selection change again, if any */
+    redo(): GroupedSelectionModel<Value> {
+        const result = redoSelectionChange(this.state.history, this.state.choices)
+        return result ? this.update({ choices: result.choices, history: result.history }) : this
+    }
+
+    private get view() {
+        this.cachedView ??= filterBySearch(
+            this.state.choices,
+            this.state.groups,
+            this.state.search.query,
+            this.state.collapsedKeys,
+            this.state.searchOptions,
+            this.state.searchCache,
+        )
+        return this.cachedView
+    }
+
+    /**
+     * A model with the given changes and without the notices and error of this one. When the items change, the
+     * cursor moves to `target` if given, and otherwise stays on the list.
+     */
+    private update(changes: Partial<ModelState<Value>>, target?: Item<Value>): GroupedSelectionModel<Value> {
+        const state: ModelState<Value> = { ...this.state, notices: [], error: undefined, range: undefined, ...changes }
+        if (changes.choices && !changes.summary) {
+            state.summary = updateSummary(this.state.summary, this.state.choices, changes.choices, state.groupIndices)
+        }
+
+        const next = Object.create(GroupedSelectionModel.prototype) as GroupedSelectionModel<Value>
+        Object.assign(next, { options: this.options, state })
+
+        // Moving the cursor and other changes that keep what is listed keep the filtered list too
+        if (
+            state.choices === this.state.choices &&
+            state.groups === this.state.groups &&
+            state.search.query === this.state.search.query &&
+            state.collapsedKeys === this.state.collapsedKeys &&
+            state.searchOptions === this.state.searchOptions
+        ) {
+            next.cachedView = this.cachedView
+        }
+
+        if (target) {
+            const index = findItemIndex(next.items, target)
+            next.state.cursor = index === -1 ? findFirstSelectableIndex(next.items) : index
+        }
+        next.settleCursor()
+
+        return next
+    }
+
+    /** Keeps the cursor on the list when items disappear from under it, e.g. unchecking in the selected-only view */
+    private settleCursor(): void {
+        const { cursor } = this.state
+        const activeItem = this.items[cursor]
+        if (activeItem && isSelectableItem(activeItem)) return
+
+        const previous = this.items.findLastIndex((item, index) => index <= cursor && isSelectableItem(item))
+        this.state.cursor = previous === -1 ? findFirstSelectableIndex(this.items) : previous
+    }
+
+    /**
+     * Whether bulk actions (group header, toggle all, invert, ranges and mark mode) apply to a choice. They leave radio
+     * choices alone, as they are mutually exclusive.
+     */
+    isBulkToggleable(choice: NormalizedChoice<Value>): boolean {
+        return !choice.disabled && !this.isRadioGroup(choice.groupKey)
+    }
+
+    /** Choices matching the search that bulk actions apply to, including those hidden inside collapsed groups */
+    private getVisibleChoices(): NormalizedChoice<Value>[] {
+        return this.visibleGroups
+            .filter((g) => g.parentKey === undefined)
+            .flatMap((g) => g.choices)
+            .filter((choice) => this.isBulkToggleable(choice))
+    }
+
+    private moveToSiblingGroup(direction: 1 | -1): GroupedSelectionModel<Value> {
+        const group = this.currentGroup
+        if (!group) return this
+
+        const siblings = getSiblingGroups(group, this.visibleGroups)
+        if (siblings.length <= 1) return this
+
+        const index = siblings.findIndex((g) => g.key === group.key)
+        return this.moveCursorTo(siblings[(index + direction + siblings.length) % siblings.length]!.startIndex)
+    }
+
+    /** Sets the choices, recording the change for undo as `action`, e.g. "select" */
+    private commit(
+        choices: NormalizedChoice<Value>[],
+        action: string,
+        feedback: Pick<ModelState<Value>, 'notices' | 'error'> = { notices: [] },
+    ): GroupedSelectionModel<Value> {
+        const history = recordSelectionChange(
+            this.state.history,
+            this.state.choices,
+            choices,
+            action,
+            this.options.historySize,
+        )
+        return this.update({ ...feedback, choices, history })
+    }
+
+    /**
+     * Applies a selection change, first resolving choice dependencies, then reverting new selections that would take
+     * a group past its `max`. When a limit would leave dependencies unsatisfied, the change is refused.
+     */
+    private change(
+        nextChoices: NormalizedChoice<Value>[],
+        action: string,
+        notices: string[] = [],
+    ): { model: GroupedSelectionModel<Value>; changed: boolean } {
+        const previous = this.state.choices
+        const { dependencyGraph } = this.state
+        const resolved = applyDependencies(previous, nextChoices, dependencyGraph, this.options.conflictResolution)
+        const { choices: allowed, exceededGroup } = applyGroupLimits(previous, resolved.choices, this.state.groups)
+        const error = exceededGroup ? `Select at most ${exceededGroup.max} in ${exceededGroup.label}` : undefined
+
+        if (exceededGroup && !satisfiesDependencies(allowed, dependencyGraph)) {
+            return { model: this.update({ error }), changed: false }
+        }
+
+        const feedback = { notices: [...notices, ...resolved.notices], error }
+        const changed = allowed.some((choice, index) => choice.checked !== previous[index]?.checked)
+        return { model: changed ? this.commit(allowed, action, feedback) : this.update(feedback), changed }
+    }
+
+    /**
+     * Checks the matching choices, as far as group limits allow. When they are all checked already, or none of them
+     * can be checked, unchecks them instead, along with the choices that require them.
+     */
+    private toggleMatching(
+        matches: (choice: NormalizedChoice<Value>) => boolean,
+        allChecked: boolean,
+    ): GroupedSelectionModel<Value> {
+        let notices: string[] = []
+        if (!allChecked) {
+            const selected = this.change(
+                this.state.choices.map((choice) => (matches(choice) ? { ...choice, checked: true } : choice)),
+                'select',
+            )
+            if (selected.changed) {
+                return selected.model
+            }
+            notices = selected.model.notices
+        }
+
+        return this.change(
+            this.state.choices.map((choice) => (matches(choice) ? { ...choice, checked: false } : choice)),
+            'deselect',
+            notices,
+        ).model
+    }
+}
+
+// Also the entry point of `inquirer-grouped-checkbox/model`, which can be used without the prompt
+export { GroupedCheckboxConfigError } from './errors.js'
+export type { ConfigIssue } from './errors.js'
+export { isGroupHeader, isSeparator } from './types.js'
+export type {
+    Choice,
+    ChoiceIdentity,
+    ChoiceReference,
+    Group,
+    GroupedSelections,
+    GroupHeader,
+    GroupLoadState,
+    Item,
+    NormalizedChoice,
+    NormalizedGroup,
+    SearchInput,
+    SelectionChange,
+    SelectionHistory,
+} from './types.js'
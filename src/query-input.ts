@@ -0,0 +1,72 @@
+import type { SearchInput } from './types.js'
+
+const segmenter = new Intl.Segmenter()
+
+/**
+ * Positions between the user-perceived characters of the text, so that the cursor never splits an accented letter or
+ * an emoji. Includes both ends of the text.
+ */
+function getBoundaries(text: string): number[] {
+    return [...Array.from(segmenter.segment(text), (segment) => segment.index), text.length]
+}
+
+/**
+ * Whether a key sequence is text to insert rather than a control or escape sequence.
+ */
+export function isPrintable(sequence: string): boolean {
+    return sequence.length > 0 && !/\p{Cc}/u.test(sequence)
+}
+
+/**
+ * Inserts text at the cursor. Line breaks and tabs, as found in pasted text, become spaces and other control
+ * characters are dropped.
+ */
+export function insertText(input: SearchInput, text: string): SearchInput {
+    const clean = text.replace(/[\r\n\t]+/g, ' ').replace(/\p{Cc}/gu, '')
+
+    return {
+        query: input.query.slice(0, input.cursor) + clean + input.query.slice(input.cursor),
+        cursor: input.cursor + clean.length,
+    }
+}
+
+/**
+ * Moves the cursor one character to the left (-1) or right (1).
+ */
+export function moveCursor(input: SearchInput, direction: -1 | 1): SearchInput {
+    const boundaries = getBoundaries(input.query)
+    const cursor =
+        direction === -1
+            ? (boundaries.findLast((boundary) => boundary < input.cursor) ?? 0)
+            : (boundaries.find((boundary) => boundary > input.cursor) ?? input.query.length)
+
+    return { query: input.query, cursor }
+}
+
+function deleteRange(input: SearchInput, start: number, end: number): SearchInput {
+    return { query: input.query.slice(0, start) + input.query.slice(end), cursor: start }
+}
+
+/**
+ * Deletes the character before the cursor (Backspace).
+ */
+export function deleteBackward(input: SearchInput): SearchInput {
+    return deleteRange(input, moveCursor(input, -1).cursor, input.cursor)
+}
+
+/**
+ * Deletes the character after the cursor (Delete).
+ */
+export function deleteForward(input: SearchInput): SearchInput {
+    return deleteRange(input, input.cursor, moveCursor(input, 1).cursor)
+}
+
+/**
+ * Deletes the word before the cursor, along with any spaces between it and the cursor (Ctrl+W).
+ */
+export function deleteWordBackward(input: SearchInput): SearchInput {
+    const before = input.query.slice(0, input.cursor)
+    const start = before.search(/\S*\s*$/)
+
+    return deleteRange(input, start, input.cursor)
+}
@@ -0,0 +1,338 @@
+import type { NormalizedChoice, QueryField, QueryTerm, SearchField, SearchMatch, SearchOptions } from './types.js'
+
+export const DEFAULT_SEARCH_FIELDS: SearchField[] = ['name', 'keywords']
+
+// Matches on anything but the name rank below comparable name matches
+const SECONDARY_FIELD_PENALTY = 10
+
+const QUERY_FIELDS: QueryField[] = ['group', 'tag', 'name', 'description', 'value', 'checked', 'disabled']
+
+function isWordStart(text: string, index: number): boolean {
+    if (index === 0) {
+        return true
+    }
+
+    const previous = text[index - 1]!
+    const current = text[index]!
+
+    // After a separator, or at a camelCase boundary
+    return !/[\p{L}\p{N}]/u.test(previous) || (previous === previous.toLowerCase() && current !== current.toLowerCase())
+}
+
+function sameCharacter(a: string, b: string): boolean {
+    return a === b || a.toLowerCase() === b.toLowerCase()
+}
+
+/**
+ * Case-insensitive substring match. Earlier matches score higher, and a match at the start of the text scores highest.
+ */
+export function substringMatch(text: string, query: string): SearchMatch | undefined {
+    const start = text.toLowerCase().indexOf(query.toLowerCase())
+
+    if (start === -1) {
+        return undefined
+    }
+
+    const indices: number[] = []
+    for (let i = 0; i < query.length; i++) {
+        indices.push(start + i)
+    }
+
+    return { score: (start === 0 ? 100 : 50) - start, indices }
+}
+
+/**
+ * Case-insensitive fuzzy match: the query's characters must appear in order, but not necessarily next to each other.
+ * Runs of consecutive characters and characters at the start of words score higher, gaps and late starts lower.
+ */
+export function fuzzyMatch(text: string, query: string): SearchMatch | undefined {
+    if (!query) {
+        return { score: 0, indices: [] }
+    }
+
+    let best: SearchMatch | undefined
+
+    // Try each occurrence of the first character as a starting point, then match the rest greedily
+    for (let start = 0; start < text.length; start++) {
+        if (!sameCharacter(text[start]!, query[0]!)) {
+            continue
+        }
+
+        const indices = [start]
+        for (let i = start + 1, q = 1; i < text.length && q < query.length; i++) {
+            if (sameCharacter(text[i]!, query[q]!)) {
+                indices.push(i)
+                q++
+            }
+        }
+
+        if (indices.length < query.length) {
+            // Later starting points cannot match more characters
+            break
+        }
+
+        let score = -Math.min(start, 10)
+        indices.forEach((index, i) => {
+            score += 1
+            if (isWordStart(text, index)) {
+                score += 8
+            }
+            const previous = indices[i - 1]
+            if (previous !== undefined) {
+                score += index === previous + 1 ? 5 : -Math.min(index - previous - 1, 5) / 2
+            }
+        })
+
+        if (!best || score > best.score) {
+            best = { score, indices }
+        }
+    }
+
+    return best
+}
+
+export function matchText(
+    text: string,
+    query: string,
+    mode: 'substring' | 'fuzzy' = 'substring',
+): SearchMatch | undefined {
+    return mode === 'fuzzy' ? fuzzyMatch(text, query) : substringMatch(text, query)
+}
+
+interface MatchOptions {
+    mode?: 'substring' | 'fuzzy'
+    fields?: SearchField[]
+    groupLabels?: string[]
+    /** Matches of the group labels so far, shared by the choices of a group so that its labels are matched once */
+    labelMatches?: Map<string, SearchMatch | undefined>
+}
+
+function getFieldTexts<Value>(choice: NormalizedChoice<Value>, field: SearchField, groupLabels: string[]): string[] {
+    switch (field) {
+        case 'name':
+            return [choice.name]
+        case 'description':
+            return choice.description ? [choice.description] : []
+        case 'short':
+            return [choice.short]
+        case 'value':
+            return typeof choice.value === 'object' ? [] : [String(choice.value)]
+        case 'keywords':
+            return choice.keywords ?? []
+        case 'group':
+            return groupLabels
+    }
+}
+
+/**
+ * Matches a choice against the query on each of the given fields and returns the best match. `groupLabels` are the
+ * labels of the choice's group and its ancestors. Match indices are only meaningful for the `name` field.
+ */
+export function matchChoice<Value>(
+    choice: NormalizedChoice<Value>,
+    query: string,
+    { mode, fields = DEFAULT_SEARCH_FIELDS, groupLabels = [], labelMatches }: MatchOptions = {},
+): SearchMatch | undefined {
+    let best: SearchMatch | undefined
+
+    const matchLabel = (text: string) => {
+        if (!labelMatches) return matchText(text, query, mode)
+        if (!labelMatches.has(text)) {
+            labelMatches.set(text, matchText(text, query, mode))
+        }
+        return labelMatches.get(text)
+    }
+
+    for (const field of fields) {
+        for (const text of getFieldTexts(choice, field, groupLabels)) {
+            const match = field === 'group' ? matchLabel(text) : matchText(text, query, mode)
+            if (!match) {
+                continue
+            }
+
+            const score = field === 'name' ? match.score : match.score - SECONDARY_FIELD_PENALTY
+            if (!best || score > best.score) {
+                best = { score, indices: field === 'name' ? match.indices : [] }
+            }
+        }
+    }
+
+    return best
+}
+
+function parseBoolean(value: string): boolean | undefined {
+    switch (value.toLowerCase()) {
+        case 'yes':
+        case 'true':
+            return true
+        case 'no':
+        case 'false':
+            return false
+        default:
+            return undefined
+    }
+}
+
+/**
+ * Parses a structured search query into terms. A prefix that is not a query field is kept as plain text, so that
+ * `http://` still searches for itself.
+ *
+ * @returns The terms, or undefined if the query is not valid syntax: an unterminated quote, a quote inside a word, or
+ * a state filter whose value is not yes/no/true/false
+ */
+export function parseSearchQuery(query: string): QueryTerm[] | undefined {
+    if ((query.match(/"/g)?.length ?? 0) % 2 !== 0) {
+        return undefined
+    }
+
+    const terms: QueryTerm[] = []
+
+    for (const token of query.match(/(?:[^\s"]+|"[^"]*")+/g) ?? []) {
+        const [, minus, prefix, rest = ''] = /^(-?)(?:([a-z]+):)?(.*)$/i.exec(token)!
+        const field = QUERY_FIELDS.find((f) => f === prefix?.toLowerCase())
+        const text = field || prefix === undefined ? rest : `${prefix}:${rest}`
+
+        const quoted = /^"([^"]*)"$/.exec(text)
+        if (!quoted && text.includes('"')) {
+            return undefined
+        }
+
+        const value = quoted ? quoted[1]! : text
+        if ((field === 'checked' || field === 'disabled') && value && parseBoolean(value) === undefined) {
+            return undefined
+        }
+
+        terms.push({ field, value, negated: minus === '-' })
+    }
+
+    return terms
+}
+
+/**
+ * Formats a query term the way it would be typed, for showing parsed filters.
+ */
+export function formatQueryTerm(term: QueryTerm): string {
+    const value = /\s/.test(term.value) ? `"${term.value}"` : term.value
+    return `${term.negated ? '-' : ''}${term.field ? `${term.field}:` : ''}${value}`
+}
+
+function matchAny(texts: string[], query: string, mode?: 'substring' | 'fuzzy'): SearchMatch | undefined {
+    let best: SearchMatch | undefined
+
+    for (const text of texts) {
+        const match = matchText(text, query, mode)
+        if (match && (!best || match.score > best.score)) {
+            best = { score: match.score, indices: [] }
+        }
+    }
+
+    return best
+}
+
+function matchTerm<Value>(
+    choice: NormalizedChoice<Value>,
+    term: QueryTerm,
+    { mode, fields, groupLabels = [] }: MatchOptions,
+): SearchMatch | undefined {
+    switch (term.field) {
+        case undefined:
+            return matchChoice(choice, term.value, { mode, fields, groupLabels })
+        case 'name':
+            return matchText(choice.name, term.value, mode)
+        case 'group':
+            return matchAny([...groupLabels, choice.groupKey], term.value, mode)
+        case 'tag':
+            return matchAny(choice.keywords ?? [], term.value, mode)
+        case 'description':
+        case 'value':
+            return matchAny(getFieldTexts(choice, term.field, groupLabels), term.value, mode)
+        case 'checked':
+            return parseBoolean(term.value) === choice.checked ? { score: 0, indices: [] } : undefined
+        case 'disabled':
+            return parseBoolean(term.value) === Boolean(choice.disabled) ? { score: 0, indices: [] } : undefined
+    }
+}
+
+/**
+ * Matches a choice against every term of a parsed query. The scores of the positive terms add up, and match indices
+ * are those of plain text and `name:` terms in the name. Terms without a value, like a `group:` that is still being
+ * typed, are ignored.
+ */
+export function matchQuery<Value>(
+    choice: NormalizedChoice<Value>,
+    terms: QueryTerm[],
+    options: MatchOptions = {},
+): SearchMatch | undefined {
+    let score = 0
+    const indices = new Set<number>()
+
+    for (const term of terms) {
+        if (!term.value) {
+            continue
+        }
+
+        const match = matchTerm(choice, term, options)
+        if (term.negated ? match : !match) {
+            return undefined
+        }
+        if (match && !term.negated) {
+            score += match.score
+            match.indices.forEach((index) => indices.add(index))
+        }
+    }
+
+    return { score, indices: [...indices].sort((a, b) => a - b) }
+}
+
+/**
+ * Positions of the characters in a choice's name that the query matched, for highlighting.
+ */
+export function getNameMatchIndices<Value>(
+    name: string,
+    query: string,
+    { mode, fields = DEFAULT_SEARCH_FIELDS, syntax, filter }: SearchOptions<Value> = {},
+): number[] {
+    // What a custom filter matched is unknown
+    if (filter) {
+        return []
+    }
+
+    const terms = (syntax ? parseSearchQuery(query) : undefined) ?? [{ value: query.trim(), negated: false }]
+    const indices = new Set<number>()
+
+    for (const term of terms) {
+        const searchesName = term.field === 'name' || (term.field === undefined && fields.includes('name'))
+        if (term.value && !term.negated && searchesName) {
+            matchText(name, term.value, mode)?.indices.forEach((index) => indices.add(index))
+        }
+    }
+
+    return [...indices].sort((a, b) => a - b)
+}
+
+/**
+ * Applies `style` to the characters of `text` at the given indices, one call per run of consecutive characters.
+ */
+export function highlightMatches(text: string, indices: number[], style: (text: string) => string): string {
+    if (indices.length === 0) {
+        return text
+    }
+
+    const matched = new Set(indices)
+    let result = ''
+    let run = ''
+
+    for (let i = 0; i < text.length; i++) {
+        if (matched.has(i)) {
+            run += text[i]
+            continue
+        }
+        if (run) {
+            result += style(run)
+            run = ''
+        }
+        result += text[i]
+    }
+
+    return run ? result + style(run) : result
+}
@@ -1,18 +1,27 @@
 import figures from '@inquirer/figures'
 import { styleText } from 'node:util'
 
+/** How many of a group's items are selected: none, some or all of them */
+export type GroupSelectionState = 'none' | 'partial' | 'all'
+
 export interface GroupedCheckboxTheme {
     icon: {
         checked: string
         unchecked: string
+        /** Group header checkbox when some, but not all, of the group's items are selected */
+        indeterminate: string
         cursor: string
+        collapsed: string
+        radioChecked: string
+        radioUnchecked: string
     }
     style: {
         disabledChoice: (text: string) => string
-        groupHeader: (text: string, icon?: string) => string
+        groupHeader: (text: string, icon?: string, selection?: GroupSelectionState) => string
         searchQuery: (text: string) => string
         highlight: (text: string) => string
         description: (text: string) => string
+        match: (text: string) => string
     }
     helpMode: 'always' | 'never' | 'auto'
 }
@@ -21,7 +30,11 @@ export const defaultTheme: GroupedCheckboxTheme = {
     icon: {
         checked: figures.circleFilled,
         unchecked: figures.circle,
+        indeterminate: figures.circleDouble,
         cursor: figures.pointer,
+        collapsed: figures.triangleRightSmall,
+        radioChecked: figures.radioOn,
+        radioUnchecked: figures.radioOff,
     },
     style: {
         disabledChoice: (text: string) => styleText('dim', text),
@@ -29,6 +42,7 @@ export const defaultTheme: GroupedCheckboxTheme = {
         searchQuery: (text: string) => styleText('cyan', text),
         highlight: (text: string) => styleText('cyan', text),
         description: (text: string) => styleText('dim', text),
+        match: (text: string) => styleText('underline', text),
     },
     helpMode: 'auto',
 }
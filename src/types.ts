@@ -2,6 +2,11 @@ import type { Separator, Theme } from '@inquirer/core'
 import type { Prettify } from '@inquirer/type'
 import type { GroupedCheckboxTheme } from './theme.js'
 
+/**
+ * Points at another choice, either by its `id` or by the full key of its group and its value.
+ */
+export type ChoiceReference<Value> = string | { group: string; value: Value }
+
 export interface Choice<Value> {
     value: Value
     name?: string
@@ -9,13 +14,58 @@ export interface Choice<Value> {
     short?: string
     disabled?: boolean | string
     checked?: boolean
+
+    /** Extra terms (aliases, tags) the choice can be found by when searching */
+    keywords?: string[]
+
+    /**
+     * Identifier of the choice, unique across all groups. It identifies the choice in place of its value, and
+     * references it from `requires` and `conflictsWith`.
+     */
+    id?: string
+
+    /** Choices that are selected along with this one, and without which this one is deselected */
+    requires?: Array<ChoiceReference<Value>>
+
+    /** Choices that cannot be selected at the same time as this one */
+    conflictsWith?: Array<ChoiceReference<Value>>
 }
 
+/**
+ * Choices that are loaded while the prompt is open. A function is called when the prompt opens, and again when the
+ * user retries after it failed.
+ */
+export type ChoicesLoader<Value> = Promise<Array<Choice<Value>>> | (() => Promise<Array<Choice<Value>>>)
+
+export type GroupsSource<Value> = (query: string, options: { signal: AbortSignal }) => Promise<Array<Group<Value>>>
+
 export interface Group<Value> {
+    /** Identifies the group among its siblings. Cannot contain "/", which joins the keys of nested groups. */
     key: string
     label: string
     icon?: string
-    choices: Array<Choice<Value>>
+    choices?: Array<Choice<Value>> | ChoicesLoader<Value>
+
+    /** Nested sub-groups, rendered as an indented tree below this group's own choices */
+    groups?: Array<Group<Value>>
+
+    /** Start with the group's contents hidden. Defaults to false. */
+    collapsed?: boolean
+
+    /** Minimum number of selections in this group (including sub-groups), checked on submit */
+    min?: number
+
+    /** Maximum number of selections in this group (including sub-groups), enforced while selecting */
+    max?: number
+
+    /** `'single'` allows at most one selection in the group, like `max: 1`. Defaults to `'multiple'`. */
+    mode?: 'single' | 'multiple'
+
+    /**
+     * `'radio'` makes the group's own choices mutually exclusive: selecting one deselects the others, and Space on
+     * the header clears the selection. Defaults to `'checkbox'`.
+     */
+    type?: 'checkbox' | 'radio'
 }
 
 export interface GroupedCheckboxConfig<Value> {
@@ -32,10 +82,146 @@ export interface GroupedCheckboxConfig<Value> {
 
     /** Hide running total of selected items in the message, e.g. "(2/6)". Defaults to false. */
     hideOverallTotal?: boolean
+
+    /** How the search query is matched against choice names: `'substring'` or `'fuzzy'`. Defaults to `'substring'`. */
+    searchMode?: 'substring' | 'fuzzy'
+
+    /** While searching, order each group's matches by how well they match. Defaults to false. */
+    sortByScore?: boolean
+
+    /**
+     * What the search query is matched against. `'group'` matches the labels of the choice's group and its
+     * ancestors, so searching for a group's label shows all of its choices. Defaults to `['name', 'keywords']`.
+     */
+    searchFields?: SearchField[]
+
+    /**
+     * Parse the search query as structured syntax: field prefixes (`group:db`, `tag:sql`, `name:`, `description:`,
+     * `value:`), state filters (`checked:yes`, `disabled:no`), negation (`-legacy`) and quoted phrases. A choice must
+     * match every term. Queries that cannot be parsed are searched as plain text. Defaults to false.
+     */
+    querySyntax?: boolean
+
+    /**
+     * Custom search test that replaces the built-in matching, called with each choice, the query and the choice's
+     * group on every keystroke. Return false to hide the choice, true to show it, or a number to show it ranked:
+     * higher ranks come first within their group. Not called while the query is empty.
+     */
+    filter?: ChoiceFilter<Value>
+
+    /**
+     * Fetches the groups to show for the query, e.g. from a backend, instead of filtering `groups` locally. Called
+     * when the prompt opens and as the user types, after `searchDebounce`; the signal aborts requests that are no
+     * longer needed. Selected choices stay listed when they are not in the latest results. Implies `searchable`,
+     * and `groups` are shown until the first results arrive.
+     */
+    source?: GroupsSource<Value>
+
+    /** Milliseconds to wait after the last keystroke before calling `source`. Defaults to 300. */
+    searchDebounce?: number
+
+    /**
+     * What happens when selecting a choice that conflicts with a selected one: `'deselect'` deselects the other
+     * choice, `'block'` refuses the selection. Defaults to `'deselect'`.
+     */
+    conflictResolution?: 'deselect' | 'block'
+
+    /** Pressing Enter on a group header expands/collapses it instead of submitting. Defaults to false. */
+    collapseOnEnter?: boolean
+
+    /**
+     * What Space does on the header of a group with some, but not all, of its items selected: `'selectAll'` selects
+     * the rest, `'clear'` deselects them all. Defaults to `'selectAll'`.
+     */
+    partialGroupToggle?: 'selectAll' | 'clear'
+
+    /**
+     * Keys for actions, replacing the default keys of each action given. Keys are written like `'ctrl+a'`,
+     * `'shift+tab'`, `'space'` or `'j'`; an empty list unbinds the action. A key can only be bound to one action, and
+     * when searchable, keys that type text need Ctrl or Alt.
+     */
+    keybindings?: KeyBindings
+
+    /**
+     * When not searchable, typing the first letters of a choice's name moves the cursor to the next choice that starts
+     * with them, like in native list boxes; the letters reset after a second of not typing. `'shortcuts'` lets keys
+     * bound to actions (like `a` and `i`) run their action unless they continue a name being typed, `'typeAhead'`
+     * always types them, and `false` turns type-ahead off. Not used in vim mode, which has `/`. Defaults to
+     * `'shortcuts'`.
+     */
+    typeAhead?: false | 'shortcuts' | 'typeAhead'
+
+    /**
+     * `'vim'` moves with j/k, jumps to the first and last item with gg/G, toggles with x (or Space) and uses plain
+     * letters for the other shortcuts. When searchable, `/` starts typing a search, Enter or Escape goes back to the
+     * list, and n/N jump to the next and previous matching choice. Defaults to `'default'`.
+     */
+    navigationMode?: 'default' | 'vim'
+
+    /** How many selection changes can be undone. Defaults to 100. */
+    historySize?: number
+
+    /**
+     * Identifies choices by a key derived from their value, for values that are not identical from one load or
+     * search to the next, like objects. Keys must be unique within a group. A choice's `id` takes precedence.
+     * Without either, choices are identified by their value.
+     */
+    getKey?: (value: Value) => string
+
+    /**
+     * Treat configuration warnings, like empty groups or groups with every choice disabled, as errors that stop the
+     * prompt from starting. Defaults to false.
+     */
+    strict?: boolean
+
+    /**
+     * Called after a keypress changes the selection, with the new selections and the choices that were selected and
+     * deselected, e.g. to show a live preview next to the prompt. An error it throws is shown below the list.
+     */
+    onChange?: (selections: GroupedSelections<Value>, diff: SelectionDiff<Value>) => void
+
+    /**
+     * Called after a keypress moves the cursor to another item, with the choice and the group it is in. On a group
+     * header, `choice` is undefined. An error it throws is shown below the list.
+     */
+    onCursorChange?: (choice: NormalizedChoice<Value> | undefined, group: NormalizedGroup<Value> | undefined) => void
+
+    /** Called after a keypress changes the search query. An error it throws is shown below the list. */
+    onSearchChange?: (query: string) => void
 }
 
+/**
+ * Actions that can be bound to keys with the `keybindings` option.
+ */
+export type KeyAction =
+    | 'up'
+    | 'down'
+    | 'first'
+    | 'last'
+    | 'toggle'
+    | 'toggleAll'
+    | 'invert'
+    | 'nextGroup'
+    | 'prevGroup'
+    | 'clearSearch'
+    | 'search'
+    | 'nextMatch'
+    | 'prevMatch'
+    | 'submit'
+    | 'onlySelected'
+    | 'mark'
+    | 'retry'
+    | 'undo'
+    | 'redo'
+
+export type KeyBindings = Partial<Record<KeyAction, string | string[]>>
+
 export type PartialTheme = Prettify<Partial<Theme<GroupedCheckboxTheme>> & { checkbox?: Partial<GroupedCheckboxTheme> }>
 
+/**
+ * Selected values keyed by group. Nested groups are keyed by their full path,
+ * e.g. `us-east/prod` for a `prod` group inside a `us-east` group.
+ */
 export interface GroupedSelections<Value> {
     [groupKey: string]: Value[]
 }
@@ -50,31 +236,167 @@ export interface NormalizedChoice<Value> {
     groupKey: string
     groupIndex: number
     indexInGroup: number
+    keywords?: string[]
+    id?: string
+    /** Identity of the choice within its group: its `id`, or its key from `getKey` */
+    key?: string
+    requires?: Array<ChoiceReference<Value>>
+    conflictsWith?: Array<ChoiceReference<Value>>
 }
 
+/**
+ * What identifies a choice: its group, and its key, or its value when it has no key.
+ */
+export type ChoiceIdentity<Value> = Pick<NormalizedChoice<Value>, 'groupKey' | 'value' | 'key'>
+
 export interface NormalizedGroup<Value> {
+    /** Full path of the group, i.e. its own key prefixed by the keys of its ancestors */
     key: string
     label: string
     icon?: string
+    /** Nesting level, 0 for top-level groups */
+    depth: number
+    /** Full path of the parent group, if this group is nested */
+    parentKey?: string
+    /** Whether the group's contents are hidden */
+    collapsed?: boolean
+    /** Minimum number of selections in the group's subtree */
+    min?: number
+    /** Maximum number of selections in the group's subtree (1 for `mode: 'single'`) */
+    max?: number
+    type?: 'checkbox' | 'radio'
+    /** Set while the group's choices are loading, or after loading them failed */
+    loadStatus?: 'loading' | 'failed'
+    /** Why loading the group's choices failed */
+    loadError?: string
     startIndex: number
+    /** Index of the last item in this group's subtree */
     endIndex: number
+    /** All choices in this group's subtree, including those of nested groups */
     choices: NormalizedChoice<Value>[]
+    /** Selection counts of `choices`, when they are known up front */
+    stats?: { selected: number; total: number }
+}
+
+/**
+ * Progress of loading the choices of a group with a {@link ChoicesLoader}.
+ */
+export type GroupLoadState<Value> =
+    { status: 'loading' } | { status: 'loaded'; choices: Array<Choice<Value>> } | { status: 'failed'; error: string }
+
+/**
+ * Result of matching a search query against a piece of text.
+ */
+export interface SearchMatch {
+    /** Higher is a better match */
+    score: number
+    /** Positions of the matched characters in the text */
+    indices: number[]
+}
+
+export type SearchField = 'name' | 'description' | 'short' | 'value' | 'keywords' | 'group'
+
+/**
+ * The search query being edited, with the position of the text cursor in it.
+ */
+export interface SearchInput {
+    query: string
+    /** Offset into `query`, always between two user-perceived characters */
+    cursor: number
+}
+
+export type ChoiceFilter<Value> = (
+    choice: NormalizedChoice<Value>,
+    query: string,
+    group: NormalizedGroup<Value>,
+) => boolean | number
+
+export interface SearchOptions<Value = unknown> {
+    mode?: 'substring' | 'fuzzy'
+    sortByScore?: boolean
+    fields?: SearchField[]
+    /** Parse the query with the structured query syntax */
+    syntax?: boolean
+    /** Replaces all of the above matching */
+    filter?: ChoiceFilter<Value>
+    /** Only keep checked choices, on top of the search */
+    onlySelected?: boolean
+}
+
+/**
+ * Field prefixes of the structured query syntax. `checked` and `disabled` filter on state and take yes/no values.
+ */
+export type QueryField = 'group' | 'tag' | 'name' | 'description' | 'value' | 'checked' | 'disabled'
+
+/**
+ * One term of a structured search query, like `group:db`, `-legacy` or `"read replica"`.
+ */
+export interface QueryTerm {
+    /** Undefined for plain text, which is matched against the configured search fields */
+    field?: QueryField
+    value: string
+    negated: boolean
+}
+
+/**
+ * A selection change that can be undone: the choices it changed, with the state it gave them.
+ */
+export interface SelectionChange<Value> {
+    /** What the change did, e.g. "invert 37 items" */
+    label: string
+    changes: Array<ChoiceIdentity<Value> & { checked: boolean }>
+}
+
+/**
+ * The choices a selection change selected and deselected, as passed to `onChange`.
+ */
+export interface SelectionDiff<Value> {
+    selected: Array<NormalizedChoice<Value>>
+    deselected: Array<NormalizedChoice<Value>>
+}
+
+/**
+ * Selection changes that can be undone and redone, most recent last.
+ */
+export interface SelectionHistory<Value> {
+    undo: Array<SelectionChange<Value>>
+    redo: Array<SelectionChange<Value>>
+}
+
+/**
+ * Dependencies between choices, resolved to their positions in the list of normalized choices.
+ */
+export interface DependencyGraph {
+    /** Choices that each choice directly requires */
+    requires: number[][]
+    /** Choices that directly require each choice */
+    requiredBy: number[][]
+    /** Choices that each choice conflicts with, in both directions, including the other choices of a radio group */
+    conflicts: number[][]
 }
 
 /**
  * Represents a group header in the flattened choice list.
  * Group headers are navigable items that allow users to toggle all items in the group.
- * When the user presses Space on a group header, all non-disabled items in that group are toggled.
+ * When the user presses Space on a group header, all non-disabled items in that group's subtree are toggled.
  */
 export interface GroupHeader {
     /** Discriminator to identify this item as a group header */
     type: 'group-header'
-    /** The unique key of the group this header belongs to */
+    /** The unique key (full path) of the group this header belongs to */
     groupKey: string
     /** The display label for the group */
     label: string
     /** Optional icon displayed before the label */
     icon?: string
+    /** Nesting level of the group, used for indentation */
+    depth: number
+    /** Whether the group's contents are hidden */
+    collapsed: boolean
+    /** Set while the group's choices are loading, or after loading them failed */
+    loadStatus?: 'loading' | 'failed'
+    /** Why loading the group's choices failed */
+    loadError?: string
 }
 
 export type Item<Value> = NormalizedChoice<Value> | Separator | GroupHeader
@@ -89,3 +411,11 @@ export type Item<Value> = NormalizedChoice<Value> | Separator | GroupHeader
 export function isGroupHeader(item: unknown): item is GroupHeader {
     return typeof item === 'object' && item !== null && 'type' in item && item.type === 'group-header'
 }
+
+/**
+ * Type guard to check if an item is a Separator, like `Separator.isSeparator` but without depending on
+ * `@inquirer/core` at runtime, so the selection logic can be used outside of the prompt.
+ */
+export function isSeparator(item: unknown): item is Separator {
+    return typeof item === 'object' && item !== null && 'type' in item && item.type === 'separator'
+}
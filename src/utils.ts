@@ -1,30 +1,263 @@
-import { Separator } from '@inquirer/core'
-import type { Group, GroupedSelections, GroupHeader, Item, NormalizedChoice, NormalizedGroup } from './types.js'
-import { isGroupHeader } from './types.js'
+import { buildDependencyGraph } from './dependencies.js'
+import { configError, GroupedCheckboxConfigError } from './errors.js'
+import { matchChoice, matchQuery, parseSearchQuery } from './search.js'
+import type {
+    Choice,
+    ChoiceIdentity,
+    ChoicesLoader,
+    DependencyGraph,
+    Group,
+    GroupedSelections,
+    GroupLoadState,
+    GroupHeader,
+    Item,
+    NormalizedChoice,
+    NormalizedGroup,
+    SearchOptions,
+    SelectionChange,
+    SelectionDiff,
+    SelectionHistory,
+} from './types.js'
+import type { GroupSelectionState } from './theme.js'
+import { isGroupHeader, isSeparator } from './types.js'
 
-export function normalizeGroups<Value>(groups: ReadonlyArray<Group<Value>>): {
+/** Separator used to join ancestor keys into the full path key of a nested group */
+export const GROUP_PATH_SEPARATOR = '/'
+
+function createGroupHeader<Value>(group: NormalizedGroup<Value>): GroupHeader {
+    return {
+        type: 'group-header',
+        groupKey: group.key,
+        label: group.label,
+        icon: group.icon,
+        depth: group.depth,
+        collapsed: group.collapsed ?? false,
+        loadStatus: group.loadStatus,
+        loadError: group.loadError,
+    }
+}
+
+/**
+ * Finds the groups whose choices are loaded asynchronously, keyed by their full path.
+ */
+export function getChoicesLoaders<Value>(
+    groups: ReadonlyArray<Group<Value>>,
+    parentKey?: string,
+): Map<string, ChoicesLoader<Value>> {
+    const loaders = new Map<string, ChoicesLoader<Value>>()
+
+    for (const group of groups) {
+        const key = parentKey === undefined ? group.key : `${parentKey}${GROUP_PATH_SEPARATOR}${group.key}`
+        if (group.choices && !Array.isArray(group.choices)) {
+            loaders.set(key, group.choices)
+        }
+        getChoicesLoaders(group.groups ?? [], key).forEach((loader, childKey) => loaders.set(childKey, loader))
+    }
+
+    return loaders
+}
+
+/**
+ * The load state of a group whose choices have arrived. When they cannot be told apart from each other or from the
+ * other groups' choices, like a duplicate id, key or value, or their dependencies cannot be resolved, the group
+ * fails to load instead, as the choices are only known once the prompt is open.
+ */
+export function getLoadedState<Value>(
+    groups: ReadonlyArray<Group<Value>>,
+    loadStates: ReadonlyMap<string, GroupLoadState<Value>>,
+    key: string,
+    choices: Array<Choice<Value>>,
+    options: { getKey?: (value: Value) => string; ignoreUnknownReferences?: boolean } = {},
+): GroupLoadState<Value> {
+    const loaded: GroupLoadState<Value> = { status: 'loaded', choices }
+    try {
+        resolveGroups(groups, new Map(loadStates).set(key, loaded), options)
+        return loaded
+    } catch (error) {
+        if (!(error instanceof GroupedCheckboxConfigError)) throw error
+        return { status: 'failed', error: error.issues[0]!.message }
+    }
+}
+
+/**
+ * Normalizes the groups and resolves the dependencies of their choices. References to choices of groups that have not
+ * loaded (yet) are skipped, and with `ignoreUnknownReferences`, all references to unknown choices.
+ *
+ * @throws {GroupedCheckboxConfigError} If the choices cannot be told apart or their dependencies cannot be resolved
+ */
+export function resolveGroups<Value>(
+    groups: ReadonlyArray<Group<Value>>,
+    loadStates: ReadonlyMap<string, GroupLoadState<Value>>,
+    { getKey, ignoreUnknownReferences }: { getKey?: (value: Value) => string; ignoreUnknownReferences?: boolean } = {},
+): {
+    normalizedGroups: NormalizedGroup<Value>[]
+    choices: NormalizedChoice<Value>[]
+    dependencyGraph: DependencyGraph
+} {
+    const { normalizedGroups, flatChoices } = normalizeGroups(groups, loadStates, { getKey })
+    const choices = flatChoices.filter(
+        (item): item is NormalizedChoice<Value> => !isSeparator(item) && !isGroupHeader(item),
+    )
+    const dependencyGraph = buildDependencyGraph(choices, normalizedGroups, {
+        ignoreUnknown: ignoreUnknownReferences || [...loadStates.values()].some((state) => state.status !== 'loaded'),
+        getKey,
+    })
+
+    return { normalizedGroups, choices, dependencyGraph }
+}
+
+/**
+ * The key identifying a choice within its group: its `id`, or the key `getKey` derives from its value.
+ */
+export function getChoiceKey<Value>(
+    choice: Pick<Choice<Value>, 'id' | 'value'>,
+    getKey: ((value: Value) => string) | undefined,
+): string | undefined {
+    return choice.id ?? getKey?.(choice.value)
+}
+
+/** A choice value for messages, with strings in quotes */
+export function describeValue(value: unknown): string {
+    return typeof value === 'string' ? `"${value}"` : String(value)
+}
+
+/**
+ * Whether two choices are the same choice: in the same group, with the same key (from `id` or `getKey`), or with
+ * the same value when neither has a key.
+ */
+export function isSameChoice<Value>(a: ChoiceIdentity<Value>, b: ChoiceIdentity<Value>): boolean {
+    if (a.groupKey !== b.groupKey) {
+        return false
+    }
+
+    return a.key !== undefined || b.key !== undefined ? a.key === b.key : a.value === b.value
+}
+
+/**
+ * Builds a lookup of the given choices (or entries identifying choices), which finds the one that is the same choice
+ * as the one looked up, like {@link isSameChoice}. The first of several entries for the same choice wins.
+ */
+export function createChoiceLookup<Value, Entry extends ChoiceIdentity<Value>>(
+    entries: ReadonlyArray<Entry>,
+): (choice: ChoiceIdentity<Value>) => Entry | undefined {
+    // Entries by group key and identity, for choices with and without a key
+    const keyed = new Map<string, Map<unknown, Entry>>()
+    const unkeyed = new Map<string, Map<unknown, Entry>>()
+    const entriesOf = (choice: ChoiceIdentity<Value>) => (choice.key === undefined ? unkeyed : keyed)
+
+    for (const entry of entries) {
+        const byGroup = entriesOf(entry)
+        const group = byGroup.get(entry.groupKey) ?? new Map<unknown, Entry>()
+        const identity = entry.key ?? entry.value
+        if (!group.has(identity)) {
+            group.set(identity, entry)
+        }
+        byGroup.set(entry.groupKey, group)
+    }
+
+    return (choice) =>
+        entriesOf(choice)
+            .get(choice.groupKey)
+            ?.get(choice.key ?? choice.value)
+}
+
+/**
+ * Builds a test for whether a choice is one of the given choices, matching them like {@link isSameChoice}.
+ */
+export function createChoiceMatcher<Value>(
+    choices: ReadonlyArray<ChoiceIdentity<Value>>,
+): (choice: ChoiceIdentity<Value>) => boolean {
+    // The choices are usually the very objects tested, so the lookup is only built for ones that aren't
+    const objects = new Set(choices)
+    let lookup: ((choice: ChoiceIdentity<Value>) => ChoiceIdentity<Value> | undefined) | undefined
+    return (choice) => {
+        if (objects.has(choice)) {
+            return true
+        }
+        lookup ??= createChoiceLookup(choices)
+        return lookup(choice) !== undefined
+    }
+}
+
+/**
+ * Flattens (possibly nested) groups into a navigable list. Each group contributes its header, then its own
+ * choices, then the items of its sub-groups, so a group's subtree always occupies a contiguous range.
+ *
+ * Groups with a {@link ChoicesLoader} contribute the choices in `loadStates` once loaded, and none until then.
+ */
+export function normalizeGroups<Value>(
+    groups: ReadonlyArray<Group<Value>>,
+    loadStates: ReadonlyMap<string, GroupLoadState<Value>> = new Map(),
+    { getKey }: { getKey?: (value: Value) => string } = {},
+): {
     normalizedGroups: NormalizedGroup<Value>[]
     flatChoices: Item<Value>[]
 } {
     const normalizedGroups: NormalizedGroup<Value>[] = []
     const flatChoices: Item<Value>[] = []
-    let flatIndex = 0
+    const ids = new Set<string>()
 
-    groups.forEach((group, groupIndex) => {
-        // Insert group header as a navigable item
-        const groupHeader: GroupHeader = {
-            type: 'group-header',
-            groupKey: group.key,
+    const addGroup = (group: Group<Value>, parentKey: string | undefined, depth: number) => {
+        // Otherwise, "a/b" would be the same group as "b" nested in "a"
+        if (group.key.includes(GROUP_PATH_SEPARATOR)) {
+            throw configError(`Group key "${group.key}" contains "${GROUP_PATH_SEPARATOR}"`)
+        }
+
+        const key = parentKey === undefined ? group.key : `${parentKey}${GROUP_PATH_SEPARATOR}${group.key}`
+        const groupIndex = normalizedGroups.length
+        const startIndex = flatChoices.length
+        const loadState = Array.isArray(group.choices) ? undefined : loadStates.get(key)
+        const choices = Array.isArray(group.choices)
+            ? group.choices
+            : loadState?.status === 'loaded'
+              ? loadState.choices
+              : []
+        const isPending = group.choices !== undefined && !Array.isArray(group.choices) && loadState?.status !== 'loaded'
+        const normalizedGroup: NormalizedGroup<Value> = {
+            key,
             label: group.label,
             icon: group.icon,
+            depth,
+            parentKey,
+            collapsed: group.collapsed ?? false,
+            min: group.min,
+            max: group.mode === 'single' ? 1 : group.max,
+            type: group.type ?? 'checkbox',
+            loadStatus: isPending ? (loadState?.status === 'failed' ? 'failed' : 'loading') : undefined,
+            loadError: loadState?.status === 'failed' ? loadState.error : undefined,
+            startIndex,
+            endIndex: startIndex,
+            choices: [],
         }
-        flatChoices.push(groupHeader)
-        const startIndex = flatIndex
-        flatIndex++
+        normalizedGroups.push(normalizedGroup)
 
-        const normalizedChoices: NormalizedChoice<Value>[] = []
+        // Insert group header as a navigable item
+        flatChoices.push(createGroupHeader(normalizedGroup))
+
+        const keys = new Set<string>()
+        const values = new Set<unknown>()
+        choices.forEach((choice, indexInGroup) => {
+            if (choice.id !== undefined) {
+                if (ids.has(choice.id)) {
+                    throw configError(`Duplicate choice id "${choice.id}"`)
+                }
+                ids.add(choice.id)
+            }
+
+            const choiceKey = getChoiceKey(choice, getKey)
+            if (choiceKey !== undefined) {
+                if (keys.has(choiceKey)) {
+                    throw configError(`Duplicate choice key "${choiceKey}" in group "${key}"`)
+                }
+                keys.add(choiceKey)
+            } else {
+                // Without a key, choices are told apart by their value
+                if (values.has(choice.value)) {
+                    throw configError(`Duplicate choice value ${describeValue(choice.value)} in group "${key}"`)
+                }
+                values.add(choice.value)
+            }
 
-        group.choices.forEach((choice, indexInGroup) => {
             const normalizedChoice: NormalizedChoice<Value> = {
                 value: choice.value,
                 name: choice.name ?? String(choice.value),
@@ -32,91 +265,355 @@ export function normalizeGroups<Value>(groups: ReadonlyArray<Group<Value>>): {
                 short: choice.short ?? choice.name ?? String(choice.value),
                 disabled: choice.disabled ?? false,
                 checked: choice.checked ?? false,
-                groupKey: group.key,
+                groupKey: key,
                 groupIndex,
                 indexInGroup,
+                keywords: choice.keywords,
+                id: choice.id,
+                key: choiceKey,
+                requires: choice.requires,
+                conflictsWith: choice.conflictsWith,
             }
-            normalizedChoices.push(normalizedChoice)
             flatChoices.push(normalizedChoice)
-            flatIndex++
         })
 
-        normalizedGroups.push({
-            key: group.key,
-            label: group.label,
-            icon: group.icon,
-            startIndex,
-            endIndex: flatIndex - 1,
-            choices: normalizedChoices,
-        })
-    })
+        group.groups?.forEach((child) => addGroup(child, key, depth + 1))
+
+        normalizedGroup.endIndex = flatChoices.length - 1
+        normalizedGroup.choices = flatChoices
+            .slice(startIndex)
+            .filter((c): c is NormalizedChoice<Value> => !isSeparator(c) && !isGroupHeader(c))
+    }
+
+    groups.forEach((group) => addGroup(group, undefined, 0))
 
     return { normalizedGroups, flatChoices }
 }
 
+/**
+ * The search results of one group's own choices (not those of its sub-groups), kept for as long as the choices,
+ * query and options stay the same.
+ */
+interface GroupSearchResult<Value> {
+    /** The group's own choices that were searched */
+    choices: NormalizedChoice<Value>[]
+    matches: NormalizedChoice<Value>[]
+    scores: Map<NormalizedChoice<Value>, number>
+    /** Whether a custom filter ranked the matches */
+    ranked: boolean
+    selected: number
+    total: number
+}
+
+/**
+ * Search results of the previous {@link filterBySearch} call, so that typing and toggling only search the groups
+ * whose choices changed. Create one per prompt with {@link createSearchCache}.
+ */
+export interface SearchCache<Value> {
+    query: string
+    options?: SearchOptions<Value>
+    groups?: NormalizedGroup<Value>[]
+    results: Map<string, GroupSearchResult<Value>>
+    /** The choices of the previous call, split by group, with each choice's position in its group's list */
+    ownChoices?: {
+        flatChoices: Item<Value>[]
+        byGroup: Map<string, NormalizedChoice<Value>[]>
+        positions: number[]
+    }
+}
+
+export function createSearchCache<Value>(): SearchCache<Value> {
+    return { query: '', results: new Map() }
+}
+
+/**
+ * Splits the choices by group. Groups whose choices are the same objects as in the previous call keep the same list,
+ * so that the search can tell which groups changed by their list alone.
+ */
+function splitByGroup<Value>(
+    flatChoices: Item<Value>[],
+    cache: SearchCache<Value>,
+): Map<string, NormalizedChoice<Value>[]> {
+    const previous = cache.ownChoices
+    if (previous?.flatChoices === flatChoices) {
+        return previous.byGroup
+    }
+
+    // Selection changes replace choices in place, so only the lists of the groups they are in need copying
+    if (previous && previous.flatChoices.length === flatChoices.length) {
+        const byGroup = new Map(previous.byGroup)
+        const copiedKeys = new Set<string>()
+        let inPlace = true
+        for (let index = 0; index < flatChoices.length && inPlace; index++) {
+            const choice = flatChoices[index]!
+            const before = previous.flatChoices[index]!
+            if (choice === before) continue
+
+            if (isSeparator(choice) || isGroupHeader(choice) || isSeparator(before) || isGroupHeader(before)) {
+                inPlace = false
+            } else if (choice.groupKey !== before.groupKey) {
+                inPlace = false
+            } else {
+                let own = byGroup.get(choice.groupKey)!
+                if (!copiedKeys.has(choice.groupKey)) {
+                    own = [...own]
+                    byGroup.set(choice.groupKey, own)
+                    copiedKeys.add(choice.groupKey)
+                }
+                own[previous.positions[index]!] = choice
+            }
+        }
+
+        if (inPlace) {
+            cache.ownChoices = { flatChoices, byGroup, positions: previous.positions }
+            return byGroup
+        }
+    }
+
+    const byGroup = new Map<string, NormalizedChoice<Value>[]>()
+    const positions: number[] = []
+    for (const c of flatChoices) {
+        if (isSeparator(c) || isGroupHeader(c)) {
+            positions.push(-1)
+            continue
+        }
+
+        const own = byGroup.get(c.groupKey)
+        if (own) {
+            positions.push(own.length)
+            own.push(c)
+        } else {
+            positions.push(0)
+            byGroup.set(c.groupKey, [c])
+        }
+    }
+
+    cache.ownChoices = { flatChoices, byGroup, positions }
+    return byGroup
+}
+
+/**
+ * Builds the displayed list from the current choices. Groups in `collapsedKeys` only show their header, except while
+ * searching, when every group with matches is expanded so the matches are visible.
+ *
+ * The returned groups carry the selection counts of their matches in `stats`.
+ */
 export function filterBySearch<Value>(
     flatChoices: Item<Value>[],
     groups: NormalizedGroup<Value>[],
     query: string,
+    collapsedKeys: ReadonlySet<string> = new Set(),
+    options: SearchOptions<Value> = {},
+    cache: SearchCache<Value> = createSearchCache(),
 ): {
     filteredChoices: Item<Value>[]
     filteredGroups: NormalizedGroup<Value>[]
 } {
-    const lowerQuery = query.toLowerCase()
+    // Surrounding whitespace, as in pasted text, is not part of the search
+    query = query.trim()
+
     const filteredChoices: Item<Value>[] = []
     const filteredGroups: NormalizedGroup<Value>[] = []
-    let flatIndex = 0
 
+    // Typing more of a query only narrows down its matches, so then only the previous matches need searching. With
+    // a custom filter or query syntax (which has negation), that isn't necessarily so.
+    const narrowing = cache.query !== query && query.startsWith(cache.query) && !options.filter && !options.syntax
+    if (cache.options !== options || cache.groups !== groups || (cache.query !== query && !narrowing)) {
+        cache.results.clear()
+    }
+    cache.query = query
+    cache.options = options
+    cache.groups = groups
+
+    // Labels of each group and its ancestors, for matching the 'group' search field
+    const groupLabels = new Map<string, string[]>()
+    const childGroups = new Map<string | undefined, NormalizedGroup<Value>[]>()
     for (const group of groups) {
-        const matchingChoices: NormalizedChoice<Value>[] = []
+        const parentLabels = group.parentKey === undefined ? [] : (groupLabels.get(group.parentKey) ?? [])
+        groupLabels.set(group.key, [...parentLabels, group.label])
+        const siblings = childGroups.get(group.parentKey)
+        if (siblings) {
+            siblings.push(group)
+        } else {
+            childGroups.set(group.parentKey, [group])
+        }
+    }
 
-        // Use flatChoices (current state) filtered by groupKey, not group.choices (stale)
-        const currentGroupChoices = flatChoices.filter(
-            (c): c is NormalizedChoice<Value> =>
-                !Separator.isSeparator(c) && !isGroupHeader(c) && c.groupKey === group.key,
-        )
+    // Groups that are loading or failed to load stay visible, so their status shows, and so do their ancestors
+    const groupsByKey = new Map(groups.map((group) => [group.key, group]))
+    const pendingKeys = new Set<string>()
+    for (const group of groups) {
+        let pending = group.loadStatus ? group : undefined
+        while (pending && !pendingKeys.has(pending.key)) {
+            pendingKeys.add(pending.key)
+            pending = pending.parentKey === undefined ? undefined : groupsByKey.get(pending.parentKey)
+        }
+    }
+
+    // Use flatChoices (current state), not group.choices (stale)
+    const ownChoices = splitByGroup(flatChoices, cache)
+
+    const terms = query && options.syntax ? parseSearchQuery(query) : undefined
+
+    const searchGroup = (group: NormalizedGroup<Value>): GroupSearchResult<Value> => {
+        const choices = ownChoices.get(group.key) ?? []
+        const cached = cache.results.get(group.key)
+        const unchanged = cached !== undefined && cached.choices === choices
+        if (unchanged && !narrowing) {
+            return cached
+        }
+
+        const result: GroupSearchResult<Value> = {
+            choices,
+            matches: [],
+            scores: new Map(),
+            ranked: false,
+            selected: 0,
+            total: 0,
+        }
+        const matchOptions = {
+            mode: options.mode,
+            fields: options.fields,
+            groupLabels: groupLabels.get(group.key),
+            labelMatches: new Map(),
+        }
 
-        for (const choice of currentGroupChoices) {
-            if (!query || choice.name.toLowerCase().includes(lowerQuery)) {
-                matchingChoices.push(choice)
+        const isMatch = (c: NormalizedChoice<Value>): boolean => {
+            if (options.onlySelected && !c.checked) {
+                return false
             }
+            if (!query) {
+                return true
+            }
+
+            if (options.filter) {
+                const filterResult = options.filter(c, query, group)
+                if (typeof filterResult === 'number') {
+                    result.scores.set(c, filterResult)
+                    // Numbers returned by a custom filter are ranks, which always order the matches
+                    result.ranked = true
+                }
+                return filterResult !== false
+            }
+
+            // Queries that are not valid syntax are searched as plain text
+            const match = terms ? matchQuery(c, terms, matchOptions) : matchChoice(c, query, matchOptions)
+            if (match) {
+                result.scores.set(c, match.score)
+            }
+            return match !== undefined
         }
 
-        if (matchingChoices.length > 0) {
-            // Add group header first
-            const groupHeader: GroupHeader = {
-                type: 'group-header',
-                groupKey: group.key,
-                label: group.label,
-                icon: group.icon,
+        for (const c of unchanged ? cached.matches : choices) {
+            if (isMatch(c)) {
+                result.matches.push(c)
+                if (!c.disabled) {
+                    result.total++
+                    result.selected += c.checked ? 1 : 0
+                }
             }
-            filteredChoices.push(groupHeader)
-            const startIndex = flatIndex
-            flatIndex++
+        }
+
+        cache.results.set(group.key, result)
+        return result
+    }
 
-            // Then add matching choices
-            for (const choice of matchingChoices) {
-                filteredChoices.push(choice)
-                flatIndex++
+    const results = new Map(groups.map((group) => [group.key, searchGroup(group)]))
+    const ranked = [...results.values()].some((result) => result.ranked)
+
+    // Matches and selection counts of each group's subtree, collected from the deepest groups up
+    const subtrees = new Map<string, { matches: NormalizedChoice<Value>[]; selected: number; total: number }>()
+    for (const group of groups.toReversed()) {
+        const own = results.get(group.key)!
+        const children = (childGroups.get(group.key) ?? []).map((child) => subtrees.get(child.key)!)
+        subtrees.set(group.key, {
+            matches: own.matches.concat(...children.map((child) => child.matches)),
+            selected: children.reduce((sum, child) => sum + child.selected, own.selected),
+            total: children.reduce((sum, child) => sum + child.total, own.total),
+        })
+    }
+
+    const addGroup = (group: NormalizedGroup<Value>) => {
+        const subtree = subtrees.get(group.key)!
+
+        if (subtree.matches.length === 0 && !pendingKeys.has(group.key)) {
+            return
+        }
+
+        // Collapsed groups keep all their matches in `choices` so that header stats and toggling still cover them
+        const filteredGroup: NormalizedGroup<Value> = {
+            ...group,
+            collapsed: !query && collapsedKeys.has(group.key),
+            startIndex: filteredChoices.length,
+            choices: subtree.matches,
+            stats: { selected: subtree.selected, total: subtree.total },
+        }
+        filteredGroups.push(filteredGroup)
+
+        // Add group header first
+        filteredChoices.push(createGroupHeader(filteredGroup))
+
+        if (!filteredGroup.collapsed) {
+            // Then add the group's own matching choices, followed by its matching sub-groups
+            const own = results.get(group.key)!
+            let ownMatches = own.matches
+            if ((options.sortByScore || ranked) && query) {
+                ownMatches = ownMatches.toSorted((a, b) => (own.scores.get(b) ?? 0) - (own.scores.get(a) ?? 0))
             }
+            filteredChoices.push(...ownMatches)
 
-            filteredGroups.push({
-                ...group,
-                startIndex,
-                endIndex: flatIndex - 1,
-                choices: matchingChoices,
-            })
+            for (const child of childGroups.get(group.key) ?? []) {
+                addGroup(child)
+            }
         }
+
+        filteredGroup.endIndex = filteredChoices.length - 1
+    }
+
+    for (const group of childGroups.get(undefined) ?? []) {
+        addGroup(group)
     }
 
     return { filteredChoices, filteredGroups }
 }
 
+/**
+ * Finds the innermost group whose subtree contains the cursor.
+ */
 export function getCurrentGroup<Value>(
     cursorIndex: number,
     groups: NormalizedGroup<Value>[],
 ): NormalizedGroup<Value> | undefined {
-    return groups.find((group) => cursorIndex >= group.startIndex && cursorIndex <= group.endIndex)
+    // Groups are ordered parent-first, so the last match is the deepest one
+    return groups.findLast((group) => cursorIndex >= group.startIndex && cursorIndex <= group.endIndex)
+}
+
+export function getParentGroup<Value>(
+    group: NormalizedGroup<Value>,
+    groups: NormalizedGroup<Value>[],
+): NormalizedGroup<Value> | undefined {
+    if (group.parentKey === undefined) {
+        return undefined
+    }
+
+    return groups.find((g) => g.key === group.parentKey)
+}
+
+/**
+ * Returns the groups sharing the same parent as the given group (including the group itself), in display order.
+ */
+export function getSiblingGroups<Value>(
+    group: NormalizedGroup<Value>,
+    groups: NormalizedGroup<Value>[],
+): NormalizedGroup<Value>[] {
+    return groups.filter((g) => g.parentKey === group.parentKey)
+}
+
+/**
+ * Whether a choice belongs to the given group or to one of its nested sub-groups.
+ */
+export function isChoiceInGroup<Value>(choice: NormalizedChoice<Value>, group: NormalizedGroup<Value>): boolean {
+    return choice.groupKey === group.key || choice.groupKey.startsWith(`${group.key}${GROUP_PATH_SEPARATOR}`)
 }
 
 export function getSelectableInGroup<Value>(group: NormalizedGroup<Value>): NormalizedChoice<Value>[] {
@@ -129,7 +626,7 @@ export function toggleGroup<Value>(
     checked: boolean,
 ): NormalizedChoice<Value>[] {
     return choices.map((choice) => {
-        if (choice.groupKey === group.key && !choice.disabled) {
+        if (isChoiceInGroup(choice, group) && !choice.disabled) {
             return {
                 ...choice,
                 checked,
@@ -145,7 +642,7 @@ export function invertGroup<Value>(
     group: NormalizedGroup<Value>,
 ): NormalizedChoice<Value>[] {
     return choices.map((choice) => {
-        if (choice.groupKey === group.key && !choice.disabled) {
+        if (isChoiceInGroup(choice, group) && !choice.disabled) {
             return {
                 ...choice,
                 checked: !choice.checked,
@@ -156,6 +653,24 @@ export function invertGroup<Value>(
     })
 }
 
+/**
+ * Checks a choice in a radio group and unchecks the other choices of that group.
+ */
+export function checkRadioChoice<Value>(
+    choices: NormalizedChoice<Value>[],
+    target: NormalizedChoice<Value>,
+): NormalizedChoice<Value>[] {
+    return choices.map((choice) => {
+        if (choice.groupKey !== target.groupKey) {
+            return choice
+        }
+
+        const checked = isSameChoice(choice, target)
+
+        return choice.checked === checked ? choice : { ...choice, checked }
+    })
+}
+
 export function toggleAll<Value>(choices: NormalizedChoice<Value>[], checked: boolean): NormalizedChoice<Value>[] {
     return choices.map((choice) => {
         if (!choice.disabled) {
@@ -182,6 +697,305 @@ export function invertAll<Value>(choices: NormalizedChoice<Value>[]): Normalized
     })
 }
 
+/**
+ * Reverts newly checked choices that would take a group past its `max`. Choices are accepted in order, so bulk
+ * actions fill each limited group up to its limit. `previous` and `next` must list the same choices in the same order.
+ *
+ * @returns The allowed choices, and the first group whose limit prevented a selection
+ */
+export function applyGroupLimits<Value>(
+    previous: NormalizedChoice<Value>[],
+    next: NormalizedChoice<Value>[],
+    groups: NormalizedGroup<Value>[],
+): { choices: NormalizedChoice<Value>[]; exceededGroup?: NormalizedGroup<Value> } {
+    const limitedGroups = groups.filter((group) => group.max !== undefined)
+
+    if (limitedGroups.length === 0) {
+        return { choices: next }
+    }
+
+    // The limited groups a choice is in: its own group and its ancestors, found by the prefixes of its group's path
+    const limitedByKey = new Map(limitedGroups.map((group) => [group.key, group]))
+    const containingGroupsByKey = new Map<string, NormalizedGroup<Value>[]>()
+    const getContainingGroups = (groupKey: string) => {
+        let containing = containingGroupsByKey.get(groupKey)
+        if (!containing) {
+            const path = groupKey.split(GROUP_PATH_SEPARATOR)
+            containing = path.flatMap((_, depth) => {
+                const group = limitedByKey.get(path.slice(0, depth + 1).join(GROUP_PATH_SEPARATOR))
+                return group ? [group] : []
+            })
+            containingGroupsByKey.set(groupKey, containing)
+        }
+        return containing
+    }
+
+    // Selections that were already there are kept, even if they exceed a limit
+    const counts = new Map<string, number>()
+    next.forEach((choice, index) => {
+        if (choice.checked && previous[index]?.checked) {
+            for (const group of getContainingGroups(choice.groupKey)) {
+                counts.set(group.key, (counts.get(group.key) ?? 0) + 1)
+            }
+        }
+    })
+    let exceededGroup: NormalizedGroup<Value> | undefined
+
+    const choices = next.map((choice, index) => {
+        if (!choice.checked || previous[index]?.checked) {
+            return choice
+        }
+
+        const containingGroups = getContainingGroups(choice.groupKey)
+        const fullGroup = containingGroups.find((group) => (counts.get(group.key) ?? 0) >= (group.max ?? Infinity))
+
+        if (fullGroup) {
+            exceededGroup ??= fullGroup
+            return { ...choice, checked: false }
+        }
+
+        for (const group of containingGroups) {
+            counts.set(group.key, (counts.get(group.key) ?? 0) + 1)
+        }
+
+        return choice
+    })
+
+    return { choices, exceededGroup }
+}
+
+/**
+ * Finds the first group with fewer selections than its `min`.
+ */
+export function findGroupBelowMin<Value>(
+    choices: NormalizedChoice<Value>[],
+    groups: NormalizedGroup<Value>[],
+): NormalizedGroup<Value> | undefined {
+    return groups.find(
+        (group) =>
+            group.min !== undefined &&
+            choices.filter((choice) => choice.checked && isChoiceInGroup(choice, group)).length < group.min,
+    )
+}
+
+/**
+ * Short description of a group's selection limits for its header, e.g. "max 2" or "exactly 1".
+ */
+export function describeGroupLimits<Value>(group: NormalizedGroup<Value>): string | undefined {
+    const { min, max } = group
+
+    if (min !== undefined && min === max) {
+        return `exactly ${min}`
+    }
+
+    if (min !== undefined && max !== undefined) {
+        return `${min}-${max}`
+    }
+
+    if (max !== undefined) {
+        return `max ${max}`
+    }
+
+    if (min !== undefined) {
+        return `min ${min}`
+    }
+
+    return undefined
+}
+
+/**
+ * Gives the choices in `next` that also appear in `previous` their selection state from `previous`, e.g. when the
+ * list of choices grows as a group finishes loading. Other choices keep their own state.
+ */
+export function carryOverSelections<Value>(
+    previous: NormalizedChoice<Value>[],
+    next: NormalizedChoice<Value>[],
+): NormalizedChoice<Value>[] {
+    const findPrevious = createChoiceLookup(previous)
+    return next.map((choice) => {
+        const before = findPrevious(choice)
+        return before && before.checked !== choice.checked ? { ...choice, checked: before.checked } : choice
+    })
+}
+
+/**
+ * Adds the selected choices that are missing from `groups` back into them, e.g. when they are not part of the latest
+ * search results. Groups that no longer exist are recreated with their label from `previousGroups`.
+ */
+export function retainSelectedChoices<Value>(
+    groups: ReadonlyArray<Group<Value>>,
+    selected: NormalizedChoice<Value>[],
+    previousGroups: NormalizedGroup<Value>[],
+    { getKey }: { getKey?: (value: Value) => string } = {},
+): Group<Value>[] {
+    const copyGroup = (group: Group<Value>): Group<Value> => ({
+        ...group,
+        choices: Array.isArray(group.choices) ? [...group.choices] : group.choices,
+        groups: group.groups?.map(copyGroup),
+    })
+    const result = groups.map(copyGroup)
+
+    const findOrCreateGroup = (fullKey: string): Group<Value> => {
+        let siblings = result
+        let group: Group<Value> | undefined
+        let path: string | undefined
+
+        for (const key of fullKey.split(GROUP_PATH_SEPARATOR)) {
+            path = path === undefined ? key : `${path}${GROUP_PATH_SEPARATOR}${key}`
+            if (group) {
+                group.groups ??= []
+                siblings = group.groups
+            }
+
+            group = siblings.find((g) => g.key === key)
+            if (!group) {
+                const previous = previousGroups.find((g) => g.key === path)
+                group = { key, label: previous?.label ?? key, icon: previous?.icon, type: previous?.type, choices: [] }
+                siblings.push(group)
+            }
+        }
+
+        return group!
+    }
+
+    for (const choice of selected) {
+        const group = findOrCreateGroup(choice.groupKey)
+        group.choices = Array.isArray(group.choices) ? group.choices : []
+        const isRetained = (c: Choice<Value>) =>
+            isSameChoice({ groupKey: choice.groupKey, value: c.value, key: getChoiceKey(c, getKey) }, choice)
+        if (!group.choices.some(isRetained)) {
+            group.choices.push({
+                value: choice.value,
+                name: choice.name,
+                description: choice.description,
+                short: choice.short,
+                disabled: choice.disabled,
+                checked: true,
+                keywords: choice.keywords,
+                id: choice.id,
+                requires: choice.requires,
+                conflictsWith: choice.conflictsWith,
+            })
+        }
+    }
+
+    return result
+}
+
+/** Number of selection changes that can be undone, unless configured otherwise */
+export const DEFAULT_HISTORY_SIZE = 100
+
+/**
+ * Adds the change from `previous` to `next` to the undo history, labelled like "select Apple" or "invert 37 items",
+ * and clears the redo history. Only the most recent `limit` changes are kept. `previous` and `next` must list the
+ * same choices in the same order.
+ */
+export function recordSelectionChange<Value>(
+    history: SelectionHistory<Value>,
+    previous: NormalizedChoice<Value>[],
+    next: NormalizedChoice<Value>[],
+    action: string,
+    limit = DEFAULT_HISTORY_SIZE,
+): SelectionHistory<Value> {
+    const changed = next.filter((choice, index) => choice.checked !== previous[index]?.checked)
+    if (changed.length === 0) {
+        return history
+    }
+
+    const change: SelectionChange<Value> = {
+        label: changed.length === 1 ? `${action} ${changed[0]!.name}` : `${action} ${changed.length} items`,
+        changes: changed.map(({ groupKey, value, key, checked }) => ({ groupKey, value, key, checked })),
+    }
+    const undo = [...history.undo, change]
+
+    return { undo: undo.slice(Math.max(0, undo.length - limit)), redo: [] }
+}
+
+function applySelectionChange<Value>(
+    choices: NormalizedChoice<Value>[],
+    change: SelectionChange<Value>,
+    reverse: boolean,
+): NormalizedChoice<Value>[] {
+    const findChange = createChoiceLookup(change.changes)
+    return choices.map((choice) => {
+        const changed = findChange(choice)
+        if (!changed) {
+            return choice
+        }
+
+        const checked = reverse ? !changed.checked : changed.checked
+        return choice.checked === checked ? choice : { ...choice, checked }
+    })
+}
+
+interface HistoryStep<Value> {
+    choices: NormalizedChoice<Value>[]
+    history: SelectionHistory<Value>
+    change: SelectionChange<Value>
+}
+
+/**
+ * Reverts the most recent selection change. Changed choices that are no longer listed, e.g. because they are not
+ * among a search source's latest results, are skipped.
+ *
+ * @returns The choices and history after undoing, and the undone change, or undefined when there is nothing to undo
+ */
+export function undoSelectionChange<Value>(
+    history: SelectionHistory<Value>,
+    choices: NormalizedChoice<Value>[],
+): HistoryStep<Value> | undefined {
+    const change = history.undo.at(-1)
+    if (!change) {
+        return undefined
+    }
+
+    return {
+        choices: applySelectionChange(choices, change, true),
+        history: { undo: history.undo.slice(0, -1), redo: [...history.redo, change] },
+        change,
+    }
+}
+
+/**
+ * Applies the most recently undone selection change again.
+ *
+ * @returns The choices and history after redoing, and the redone change, or undefined when there is nothing to redo
+ */
+export function redoSelectionChange<Value>(
+    history: SelectionHistory<Value>,
+    choices: NormalizedChoice<Value>[],
+): HistoryStep<Value> | undefined {
+    const change = history.redo.at(-1)
+    if (!change) {
+        return undefined
+    }
+
+    return {
+        choices: applySelectionChange(choices, change, false),
+        history: { undo: [...history.undo, change], redo: history.redo.slice(0, -1) },
+        change,
+    }
+}
+
+/**
+ * The choices that are checked in `next` but were not in `previous`, and the other way around.
+ */
+export function diffSelections<Value>(
+    previous: ReadonlyArray<NormalizedChoice<Value>>,
+    next: ReadonlyArray<NormalizedChoice<Value>>,
+): SelectionDiff<Value> {
+    if (previous === next) return { selected: [], deselected: [] }
+
+    const wasChecked = createChoiceMatcher(previous.filter((choice) => choice.checked))
+    const nextChecked = next.filter((choice) => choice.checked)
+    const isChecked = createChoiceMatcher(nextChecked)
+
+    return {
+        selected: nextChecked.filter((choice) => !wasChecked(choice)),
+        deselected: previous.filter((choice) => choice.checked && !isChecked(choice)),
+    }
+}
+
 export function buildSelections<Value>(
     choices: NormalizedChoice<Value>[],
     groups: NormalizedGroup<Value>[],
@@ -210,7 +1024,7 @@ export function isSelectableItem<Value>(item: Item<Value>): item is NormalizedCh
         return true
     }
 
-    return !Separator.isSeparator(item) && !item.disabled
+    return !isSeparator(item) && !item.disabled
 }
 
 export function findNextSelectableIndex<Value>(items: Item<Value>[], currentIndex: number, direction: 1 | -1): number {
@@ -236,6 +1050,62 @@ export function findNextSelectableIndex<Value>(items: Item<Value>[], currentInde
     return currentIndex
 }
 
+/**
+ * The choices listed between two positions of the list, both included, in either order. Group headers and separators
+ * are skipped, so a range across a header covers the choices of the groups on both sides.
+ */
+export function getChoicesInRange<Value>(items: Item<Value>[], from: number, to: number): NormalizedChoice<Value>[] {
+    return items
+        .slice(Math.min(from, to), Math.max(from, to) + 1)
+        .filter((item): item is NormalizedChoice<Value> => !isSeparator(item) && !isGroupHeader(item))
+}
+
+/**
+ * Finds the next enabled choice in the given direction, skipping group headers, wrapping around at the ends.
+ *
+ * @returns The index of the choice, or `currentIndex` if there is no other
+ */
+export function findNextChoiceIndex<Value>(items: Item<Value>[], currentIndex: number, direction: 1 | -1): number {
+    for (let step = 1; step < items.length; step++) {
+        const index = (((currentIndex + direction * step) % items.length) + items.length) % items.length
+        const item = items[index]!
+        if (isSelectableItem(item) && !isGroupHeader(item)) {
+            return index
+        }
+    }
+
+    return currentIndex
+}
+
+/**
+ * Finds the next enabled choice whose name starts with the prefix, ignoring case, for type-ahead. The search starts
+ * at the current item, so that typing more of its name keeps the cursor on it, except for a single character typed
+ * one or more times, which steps through the choices starting with it.
+ *
+ * @returns The index of the choice, or -1 if there is none
+ */
+export function findChoiceByPrefix<Value>(items: Item<Value>[], currentIndex: number, prefix: string): number {
+    const characters = [...prefix.toLowerCase()]
+    const repeated = characters.every((character) => character === characters[0])
+    const search = repeated ? (characters[0] ?? '') : characters.join('')
+    const start = repeated ? 1 : 0
+
+    for (let step = start; step < items.length + start; step++) {
+        const index = (currentIndex + step) % items.length
+        const item = items[index]!
+        if (
+            !isSeparator(item) &&
+            !isGroupHeader(item) &&
+            !item.disabled &&
+            item.name.toLowerCase().startsWith(search)
+        ) {
+            return index
+        }
+    }
+
+    return -1
+}
+
 export function findFirstSelectableIndex<Value>(items: Item<Value>[]): number {
     for (let i = 0; i < items.length; i++) {
         const item = items[i]
@@ -246,8 +1116,76 @@ export function findFirstSelectableIndex<Value>(items: Item<Value>[]): number {
     return 0
 }
 
+export function findLastSelectableIndex<Value>(items: Item<Value>[]): number {
+    const index = items.findLastIndex((item) => isSelectableItem(item))
+    return index === -1 ? 0 : index
+}
+
+/**
+ * Finds the selectable item about `distance` rows away, e.g. a page up or down. The move stops at the first or last
+ * selectable item; moving on from there wraps around like {@link findNextSelectableIndex}.
+ */
+export function findSelectableIndexBy<Value>(
+    items: Item<Value>[],
+    currentIndex: number,
+    direction: 1 | -1,
+    distance: number,
+): number {
+    if (items.length === 0) return -1
+
+    const target = Math.min(Math.max(currentIndex + direction * distance, 0), items.length - 1)
+
+    // The closest selectable item up to the target, or else beyond it
+    let index = target
+    while (index !== currentIndex && !isSelectableItem(items[index]!)) {
+        index -= direction
+    }
+    if (index === currentIndex) {
+        index = target
+        while (index >= 0 && index < items.length && !isSelectableItem(items[index]!)) {
+            index += direction
+        }
+    }
+
+    if (index < 0 || index >= items.length || index === currentIndex) {
+        return findNextSelectableIndex(items, currentIndex, direction)
+    }
+
+    return index
+}
+
+/**
+ * Finds the position of an item in a (re-)filtered list: group headers are matched by group key and
+ * choices by group key and value.
+ */
+export function findItemIndex<Value>(items: Item<Value>[], target: Item<Value>): number {
+    if (isSeparator(target)) {
+        return items.indexOf(target)
+    }
+
+    if (isGroupHeader(target)) {
+        return items.findIndex((item) => isGroupHeader(item) && item.groupKey === target.groupKey)
+    }
+
+    return items.findIndex((item) => !isSeparator(item) && !isGroupHeader(item) && isSameChoice(item, target))
+}
+
 export function getGroupStats<Value>(group: NormalizedGroup<Value>): { selected: number; total: number } {
+    if (group.stats) {
+        return group.stats
+    }
+
     const selectable = getSelectableInGroup(group)
     const selected = selectable.filter((c) => c.checked).length
     return { selected, total: selectable.length }
 }
+
+/**
+ * Whether none, some or all of a group's enabled items are selected, for the group header's checkbox.
+ */
+export function getGroupSelectionState(stats: { selected: number; total: number }): GroupSelectionState {
+    if (stats.selected === 0) {
+        return 'none'
+    }
+    return stats.selected === stats.total ? 'all' : 'partial'
+}
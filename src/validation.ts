@@ -0,0 +1,114 @@
+import { type ConfigIssue, GroupedCheckboxConfigError } from './errors.js'
+import type { Group, GroupedCheckboxConfig } from './types.js'
+import { describeValue, getChoiceKey, GROUP_PATH_SEPARATOR } from './utils.js'
+
+/**
+ * Checks the configured groups and options for problems the prompt cannot recover from, like duplicate group keys or
+ * choices that cannot be told apart, and for ones that make it awkward to use, like empty groups.
+ *
+ * Choices that are loaded or fetched while the prompt is open are not known yet, and are not checked.
+ */
+export function validateConfig<Value>(config: GroupedCheckboxConfig<Value>): ConfigIssue[] {
+    const issues: ConfigIssue[] = []
+    const error = (message: string) => issues.push({ severity: 'error', message })
+    const warning = (message: string) => issues.push({ severity: 'warning', message })
+
+    if (config.pageSize !== undefined && !(Number.isInteger(config.pageSize) && config.pageSize > 0)) {
+        error(`pageSize must be a whole number of at least 1, got ${config.pageSize}`)
+    }
+
+    const ids = new Set<string>()
+    let choiceCount = 0
+    let enabledCount = 0
+    let hasLoaders = false
+    const disabledGroups: string[] = []
+
+    const checkGroups = (groups: ReadonlyArray<Group<Value>>, parentKey: string | undefined) => {
+        const siblingKeys = new Set<string>()
+
+        for (const group of groups) {
+            const key = parentKey === undefined ? group.key : `${parentKey}${GROUP_PATH_SEPARATOR}${group.key}`
+            if (siblingKeys.has(group.key)) {
+                error(`Group key "${key}" is used more than once; each group needs its own key`)
+            }
+            siblingKeys.add(group.key)
+            if (group.key.includes(GROUP_PATH_SEPARATOR)) {
+                error(
+                    `Group key "${group.key}" contains "${GROUP_PATH_SEPARATOR}", which joins the keys of nested groups; use another key`,
+                )
+            }
+
+            if (group.choices !== undefined && !Array.isArray(group.choices)) {
+                hasLoaders = true
+            } else {
+                const choices = group.choices ?? []
+                const keys = new Set<string>()
+                const values = new Set<unknown>()
+
+                for (const choice of choices) {
+                    const duplicateId = choice.id !== undefined && ids.has(choice.id)
+                    if (duplicateId) {
+                        error(`Choice id "${choice.id}" is used more than once; ids must be unique across groups`)
+                    }
+                    if (choice.id !== undefined) {
+                        ids.add(choice.id)
+                    }
+
+                    const choiceKey = getChoiceKey(choice, config.getKey)
+                    if (choiceKey !== undefined) {
+                        if (keys.has(choiceKey) && !duplicateId) {
+                            error(`Choice key "${choiceKey}" is used more than once in group "${key}"`)
+                        }
+                        keys.add(choiceKey)
+                    } else {
+                        if (values.has(choice.value)) {
+                            error(
+                                `Group "${key}" has more than one choice with value ${describeValue(choice.value)}; give them an id or use getKey`,
+                            )
+                        }
+                        values.add(choice.value)
+                    }
+                }
+
+                choiceCount += choices.length
+                const enabled = choices.filter((choice) => !choice.disabled).length
+                enabledCount += enabled
+
+                if (choices.length === 0 && (group.groups ?? []).length === 0) {
+                    warning(`Group "${key}" has no choices`)
+                } else if (choices.length > 0 && enabled === 0) {
+                    disabledGroups.push(key)
+                }
+            }
+
+            checkGroups(group.groups ?? [], key)
+        }
+    }
+
+    // With a source, the groups are only shown until the first results arrive
+    if (config.source === undefined) {
+        checkGroups(config.groups, undefined)
+
+        if (!hasLoaders && choiceCount > 0 && enabledCount === 0) {
+            warning('Every choice is disabled, so nothing can be selected; enable at least one choice')
+        } else {
+            disabledGroups.forEach((key) => warning(`Every choice in group "${key}" is disabled`))
+        }
+    }
+
+    return issues
+}
+
+/**
+ * Throws a {@link GroupedCheckboxConfigError} for the errors in the configuration, and with `strict`, for warnings
+ * too. Otherwise, returns the warnings, which the prompt shows below the list.
+ */
+export function assertValidConfig<Value>(config: GroupedCheckboxConfig<Value>): ConfigIssue[] {
+    const issues = validateConfig(config)
+    const fatal = issues.filter((issue) => issue.severity === 'error' || config.strict)
+    if (fatal.length > 0) {
+        throw new GroupedCheckboxConfigError(fatal)
+    }
+
+    return issues
+}
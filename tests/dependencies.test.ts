@@ -0,0 +1,212 @@
+import { Separator } from '@inquirer/core'
+import { describe, expect, it } from 'vitest'
+import { applyDependencies, buildDependencyGraph, satisfiesDependencies } from '../src/dependencies.js'
+import { GroupedCheckboxConfigError } from '../src/errors.js'
+import type { Group, NormalizedChoice } from '../src/types.js'
+import { isGroupHeader } from '../src/types.js'
+import { normalizeGroups } from '../src/utils.js'
+
+const setup = (groups: Group<string>[]) => {
+    const { normalizedGroups, flatChoices } = normalizeGroups(groups)
+    const choices = flatChoices.filter(
+        (c): c is NormalizedChoice<string> => !Separator.isSeparator(c) && !isGroupHeader(c),
+    )
+    return { choices, groups: normalizedGroups, graph: buildDependencyGraph(choices, normalizedGroups) }
+}
+
+const stackGroups: Group<string>[] = [
+    {
+        key: 'orm',
+        label: 'ORM',
+        choices: [
+            { value: 'prisma', name: 'Prisma', requires: ['postgres'] },
+            { value: 'drizzle', name: 'Drizzle' },
+        ],
+    },
+    {
+        key: 'db',
+        label: 'Database',
+        choices: [
+            { value: 'postgres', name: 'PostgreSQL', id: 'postgres' },
+            { value: 'sqlite', name: 'SQLite', conflictsWith: [{ group: 'deploy', value: 'cluster' }] },
+        ],
+    },
+    {
+        key: 'deploy',
+        label: 'Deployment',
+        choices: [{ value: 'cluster', name: 'Cluster mode' }],
+    },
+]
+
+const toggle = (choices: NormalizedChoice<string>[], value: string) =>
+    choices.map((c) => (c.value === value ? { ...c, checked: !c.checked } : c))
+
+const selectedValues = (choices: NormalizedChoice<string>[]) => choices.filter((c) => c.checked).map((c) => c.value)
+
+describe('buildDependencyGraph', () => {
+    it('should resolve references by id and by group and value', () => {
+        const { graph } = setup(stackGroups)
+
+        expect(graph.requires[0]).toEqual([2])
+        expect(graph.requiredBy[2]).toEqual([0])
+        expect(graph.conflicts[3]).toEqual([4])
+        expect(graph.conflicts[4]).toEqual([3])
+    })
+
+    it('should make the choices of radio groups conflict with each other', () => {
+        const { graph } = setup([
+            { key: 'runtime', label: 'Runtime', type: 'radio', choices: [{ value: 'node' }, { value: 'bun' }] },
+        ])
+
+        expect(graph.conflicts).toEqual([[1], [0]])
+    })
+
+    it('should report unknown references', () => {
+        expect(() => setup([{ key: 'g', label: 'G', choices: [{ value: 'a', requires: ['missing'] }] }])).toThrow(
+            'Unknown choice "missing" in requires of "a"',
+        )
+    })
+
+    it('should skip unknown references when asked to', () => {
+        const { normalizedGroups, flatChoices } = normalizeGroups<string>([
+            { key: 'g', label: 'G', choices: [{ value: 'a', requires: ['missing'], conflictsWith: ['other'] }] },
+        ])
+        const choices = flatChoices.filter(
+            (c): c is NormalizedChoice<string> => !Separator.isSeparator(c) && !isGroupHeader(c),
+        )
+
+        expect(buildDependencyGraph(choices, normalizedGroups, { ignoreUnknown: true })).toEqual({
+            requires: [[]],
+            requiredBy: [[]],
+            conflicts: [[]],
+        })
+    })
+
+    it('should resolve references to object values by their key', () => {
+        interface Pkg {
+            name: string
+        }
+        const getKey = (pkg: Pkg) => pkg.name
+        const { normalizedGroups, flatChoices } = normalizeGroups<Pkg>(
+            [
+                {
+                    key: 'g',
+                    label: 'G',
+                    choices: [
+                        { value: { name: 'eslint' }, requires: [{ group: 'g', value: { name: 'typescript' } }] },
+                        { value: { name: 'typescript' } },
+                    ],
+                },
+            ],
+            undefined,
+            { getKey },
+        )
+        const choices = flatChoices.filter(
+            (c): c is NormalizedChoice<Pkg> => !Separator.isSeparator(c) && !isGroupHeader(c),
+        )
+
+        expect(buildDependencyGraph(choices, normalizedGroups, { getKey }).requires).toEqual([[1], []])
+        expect(() => buildDependencyGraph(choices, normalizedGroups)).toThrow(GroupedCheckboxConfigError)
+    })
+
+    it('should report circular requirements', () => {
+        expect(() =>
+            setup([
+                {
+                    key: 'g',
+                    label: 'G',
+                    choices: [
+                        { value: 'a', id: 'a', requires: ['b'] },
+                        { value: 'b', id: 'b', requires: ['c'] },
+                        { value: 'c', id: 'c', requires: ['a'] },
+                    ],
+                },
+            ]),
+        ).toThrow('Circular requirement: a → b → c → a')
+    })
+
+    it('should report choices whose requirements conflict', () => {
+        expect(() =>
+            setup([
+                {
+                    key: 'g',
+                    label: 'G',
+                    choices: [
+                        { value: 'a', requires: ['b', 'c'] },
+                        { value: 'b', id: 'b', conflictsWith: ['c'] },
+                        { value: 'c', id: 'c' },
+                    ],
+                },
+            ]),
+        ).toThrow('"a" can never be selected')
+    })
+})
+
+describe('applyDependencies', () => {
+    it('should select required choices', () => {
+        const { choices, graph } = setup(stackGroups)
+
+        const result = applyDependencies(choices, toggle(choices, 'prisma'), graph)
+
+        expect(selectedValues(result.choices)).toEqual(['prisma', 'postgres'])
+        expect(result.notices).toEqual(['Also selected PostgreSQL (required by Prisma)'])
+    })
+
+    it('should deselect choices whose requirement is deselected', () => {
+        const { choices, graph } = setup(stackGroups)
+        const selected = applyDependencies(choices, toggle(choices, 'prisma'), graph).choices
+
+        const result = applyDependencies(selected, toggle(selected, 'postgres'), graph)
+
+        expect(selectedValues(result.choices)).toEqual([])
+        expect(result.notices).toEqual(['Deselected Prisma (requires PostgreSQL)'])
+    })
+
+    it('should deselect conflicting choices by default', () => {
+        const { choices, graph } = setup(stackGroups)
+        const selected = toggle(choices, 'cluster')
+
+        const result = applyDependencies(selected, toggle(selected, 'sqlite'), graph)
+
+        expect(selectedValues(result.choices)).toEqual(['sqlite'])
+        expect(result.notices).toEqual(['Deselected Cluster mode (conflicts with SQLite)'])
+    })
+
+    it('should refuse conflicting selections in block mode', () => {
+        const { choices, graph } = setup(stackGroups)
+        const selected = toggle(choices, 'cluster')
+
+        const result = applyDependencies(selected, toggle(selected, 'sqlite'), graph, 'block')
+
+        expect(selectedValues(result.choices)).toEqual(['cluster'])
+        expect(result.notices).toEqual(['Cannot select SQLite: conflicts with Cluster mode'])
+    })
+
+    it('should refuse selections that require a disabled choice', () => {
+        const { choices, graph } = setup([
+            {
+                key: 'g',
+                label: 'G',
+                choices: [
+                    { value: 'a', requires: ['b'] },
+                    { value: 'b', id: 'b', disabled: true },
+                ],
+            },
+        ])
+
+        const result = applyDependencies(choices, toggle(choices, 'a'), graph)
+
+        expect(selectedValues(result.choices)).toEqual([])
+        expect(result.notices).toEqual(['Cannot select a: requires b, which is unavailable'])
+    })
+})
+
+describe('satisfiesDependencies', () => {
+    it('should check requirements and conflicts of selected choices', () => {
+        const { choices, graph } = setup(stackGroups)
+
+        expect(satisfiesDependencies(choices, graph)).toBe(true)
+        expect(satisfiesDependencies(toggle(choices, 'prisma'), graph)).toBe(false)
+        expect(satisfiesDependencies(toggle(toggle(choices, 'sqlite'), 'cluster'), graph)).toBe(false)
+    })
+})
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import {
+    describeKeys,
+    getDefaultKeyBindings,
+    matchesAction,
+    matchesKeyBinding,
+    parseKeyBinding,
+    resolveKeyBindings,
+} from '../src/keybindings.js'
+
+describe('parseKeyBinding', () => {
+    it('should take modifiers in any order and case', () => {
+        expect(parseKeyBinding('Shift+Ctrl+Z')).toEqual({ name: 'z', ctrl: true, shift: true, meta: false })
+        expect(parseKeyBinding('alt+1')).toEqual({ name: '1', ctrl: false, shift: false, meta: true })
+        expect(parseKeyBinding('return')).toEqual({ name: 'enter', ctrl: false, shift: false, meta: false })
+    })
+})
+
+describe('matchesKeyBinding', () => {
+    it('should match the key name and exactly the given modifiers', () => {
+        expect(matchesKeyBinding({ name: 'z', ctrl: true }, 'ctrl+z')).toBe(true)
+        expect(matchesKeyBinding({ name: 'z', ctrl: true }, 'Ctrl+Z')).toBe(true)
+        expect(matchesKeyBinding({ name: 'z', ctrl: true, shift: true }, 'ctrl+z')).toBe(false)
+        expect(matchesKeyBinding({ name: 'z', ctrl: true, shift: true }, 'ctrl+shift+z')).toBe(true)
+        expect(matchesKeyBinding({ name: 'u', meta: true }, 'alt+u')).toBe(true)
+        expect(matchesKeyBinding({ name: 'z' }, 'ctrl+z')).toBe(false)
+    })
+
+    it('should treat return and enter as the same key', () => {
+        expect(matchesKeyBinding({ name: 'return' }, 'enter')).toBe(true)
+        expect(matchesKeyBinding({ name: 'enter' }, 'return')).toBe(true)
+    })
+})
+
+describe('resolveKeyBindings', () => {
+    it('should use Ctrl for the letter shortcuts when searchable', () => {
+        expect(getDefaultKeyBindings().toggleAll).toEqual(['a'])
+        expect(getDefaultKeyBindings({ searchable: true }).toggleAll).toEqual(['ctrl+a'])
+    })
+
+    it('should replace the default keys of the configured actions', () => {
+        const bindings = resolveKeyBindings({ down: ['down', 'j'], up: 'k', toggleAll: [] })
+
+        expect(bindings.down).toEqual(['down', 'j'])
+        expect(bindings.up).toEqual(['k'])
+        expect(bindings.toggleAll).toEqual([])
+        expect(bindings.invert).toEqual(['i'])
+        expect(matchesAction({ name: 'j' }, bindings, 'down')).toBe(true)
+        expect(matchesAction({ name: 'a' }, bindings, 'toggleAll')).toBe(false)
+    })
+
+    it('should report keys bound to more than one action', () => {
+        expect(() => resolveKeyBindings({ toggleAll: 'i' })).toThrow('Key "i" is bound to both toggleAll and invert')
+        expect(() => resolveKeyBindings({ undo: 'Shift+Ctrl+Z', redo: 'ctrl+shift+z' })).toThrow(
+            'Key "ctrl+shift+z" is bound to both undo and redo',
+        )
+    })
+
+    it('should report keys that would be typed into the search', () => {
+        expect(() => resolveKeyBindings({ down: 'j' }, { searchable: true })).toThrow(
+            'Key "j" of down would be typed into the search; bind it with ctrl or alt when searchable',
+        )
+        expect(() => resolveKeyBindings({ down: 'alt+j' }, { searchable: true })).not.toThrow()
+    })
+
+    it('should use plain letters in vim mode, where typing a search starts with a slash', () => {
+        const bindings = resolveKeyBindings({}, { searchable: true, navigationMode: 'vim' })
+
+        expect(bindings.down).toEqual(['down', 'j'])
+        expect(bindings.toggleAll).toEqual(['a'])
+        expect(bindings.search).toEqual(['/'])
+        expect(matchesAction({ sequence: '/' }, bindings, 'search')).toBe(true)
+        expect(matchesAction({ name: 'n', shift: true }, bindings, 'prevMatch')).toBe(true)
+    })
+
+    it('should report keys taken by gg in vim mode', () => {
+        expect(() => resolveKeyBindings({ first: 'g' }, { navigationMode: 'vim' })).toThrow(
+            'Key "g" of first is taken by gg in vim mode',
+        )
+    })
+
+    it('should report keys the prompt handles itself', () => {
+        expect(() => resolveKeyBindings({ toggle: 'pageup' })).toThrow('Key "pageup" of toggle is taken by paging')
+        expect(() => resolveKeyBindings({ mark: 'Shift+Up' })).toThrow(
+            'Key "Shift+Up" of mark is taken by range selection',
+        )
+        expect(() => resolveKeyBindings({ toggleAll: '1' })).toThrow(
+            'Key "1" of toggleAll is taken by jumping to a group',
+        )
+        expect(() => resolveKeyBindings({ invert: 'ctrl+w' }, { searchable: true })).toThrow(
+            'Key "ctrl+w" of invert is taken by editing the search',
+        )
+        expect(() => resolveKeyBindings({ invert: 'ctrl+w' })).not.toThrow()
+    })
+
+    it('should describe the keys of an action', () => {
+        const bindings = resolveKeyBindings({}, { searchable: true })
+
+        expect(describeKeys(bindings, 'clearSearch')).toBe('escape/ctrl+u')
+        expect(describeKeys(resolveKeyBindings({ mark: [] }), 'mark')).toBe('')
+    })
+})
@@ -0,0 +1,275 @@
+import { describe, expect, it } from 'vitest'
+import { GroupedSelectionModel, type GroupedSelectionAction, type GroupedSelectionOptions } from '../src/model.js'
+import type { Group } from '../src/types.js'
+import { isGroupHeader } from '../src/types.js'
+
+const groups: Array<Group<string>> = [
+    {
+        key: 'fruits',
+        label: 'Fruits',
+        choices: [
+            { value: 'apple', name: 'Apple' },
+            { value: 'banana', name: 'Banana' },
+            { value: 'cherry', name: 'Cherry', disabled: true },
+        ],
+    },
+    {
+        key: 'vegetables',
+        label: 'Vegetables',
+        choices: [
+            { value: 'carrot', name: 'Carrot' },
+            { value: 'pea', name: 'Pea' },
+        ],
+    },
+]
+
+function createModel(options: Partial<GroupedSelectionOptions<string>> = {}) {
+    return new GroupedSelectionModel<string>({ groups, ...options })
+}
+
+describe('GroupedSelectionModel', () => {
+    describe('selection', () => {
+        it('should toggle the active choice without changing the model it was called on', () => {
+            const model = createModel().moveCursor(1)
+            const toggled = model.toggle()
+
+            expect(toggled.selections).toEqual({ fruits: ['apple'], vegetables: [] })
+            expect(model.selections).toEqual({ fruits: [], vegetables: [] })
+        })
+
+        it('should toggle the enabled choices of a group', () => {
+            const model = createModel().toggleGroup('fruits')
+
+            expect(model.selections.fruits).toEqual(['apple', 'banana'])
+            expect(model.toggleGroup('fruits').selections.fruits).toEqual([])
+        })
+
+        it('should toggle and invert every choice', () => {
+            const model = createModel().moveCursor(1).toggle()
+
+            expect(model.toggleAll().stats).toEqual({ selected: 4, total: 4 })
+            expect(model.invert().selections).toEqual({ fruits: ['banana'], vegetables: ['carrot', 'pea'] })
+        })
+
+        it('should select what a choice requires', () => {
+            const model = createModel({
+                groups: [
+                    {
+                        key: 'tools',
+                        label: 'Tools',
+                        choices: [
+                            { value: 'eslint', requires: [{ group: 'tools', value: 'typescript' }] },
+                            { value: 'typescript' },
+                        ],
+                    },
+                ],
+            })
+
+            expect(model.moveCursor(1).toggle().selections.tools).toEqual(['eslint', 'typescript'])
+        })
+
+        it('should deselect what requires the choices a group toggle clears', () => {
+            const model = createModel({
+                groups: [
+                    {
+                        key: 'orm',
+                        label: 'ORM',
+                        choices: [{ value: 'prisma', requires: [{ group: 'db', value: 'pg' }] }],
+                    },
+                    { key: 'db', label: 'DB', choices: [{ value: 'pg' }, { value: 'sqlite' }] },
+                ],
+            })
+                .moveCursor(1)
+                .toggle()
+
+            expect(model.selections).toEqual({ orm: ['prisma'], db: ['pg'] })
+            expect(model.toggleGroup('db').toggleGroup('db').selections).toEqual({ orm: [], db: [] })
+            expect(model.toggleAll().toggleAll().selections).toEqual({ orm: [], db: [] })
+            expect(model.toggleGroup('db').toggleGroup('db').notices).not.toHaveLength(0)
+        })
+
+        it('should report an error when a group limit is reached', () => {
+            const model = createModel({ groups: [{ ...groups[1]!, max: 1 }] })
+                .moveCursor(1)
+                .toggle()
+                .moveCursor(1)
+            const limited = model.toggle()
+
+            expect(limited.selections.vegetables).toEqual(['carrot'])
+            expect(limited.error).toBe('Select at most 1 in Vegetables')
+            expect(limited.moveCursor(-1).error).toBeUndefined()
+        })
+
+        it('should keep the selections and stats up to date as the selection changes', () => {
+            const models = [createModel()]
+            const steps = [
+                (m: GroupedSelectionModel<string>) => m.moveCursor(1).toggle(),
+                (m: GroupedSelectionModel<string>) => m.toggleGroup('vegetables'),
+                (m: GroupedSelectionModel<string>) => m.invert(),
+                (m: GroupedSelectionModel<string>) => m.undo(),
+                (m: GroupedSelectionModel<string>) => m.undo(),
+                (m: GroupedSelectionModel<string>) => m.redo(),
+            ]
+            for (const step of steps) {
+                models.push(step(models.at(-1)!))
+            }
+
+            for (const model of models) {
+                const checked = model.choices.filter((choice) => choice.checked)
+                expect(model.stats).toEqual({ selected: checked.length, total: 4 })
+                expect(model.selections).toEqual({
+                    fruits: checked.filter((c) => c.groupKey === 'fruits').map((c) => c.value),
+                    vegetables: checked.filter((c) => c.groupKey === 'vegetables').map((c) => c.value),
+                })
+            }
+        })
+
+        it('should undo and redo selection changes', () => {
+            const model = createModel().toggleGroup('vegetables')
+
+            expect(model.undo().selections.vegetables).toEqual([])
+            expect(model.undo().redo().selections.vegetables).toEqual(['carrot', 'pea'])
+            expect(model.history.undo).toHaveLength(1)
+        })
+    })
+
+    describe('search', () => {
+        it('should list the matching choices under their groups', () => {
+            const model = createModel().setSearch('an')
+
+            expect(model.items.map((item) => (isGroupHeader(item) ? item.label : item))).toEqual([
+                'Fruits',
+                expect.objectContaining({ value: 'banana' }),
+            ])
+            expect(model.visibleGroups.map((group) => group.key)).toEqual(['fruits'])
+            expect(model.getMatchIndices('Banana')).toEqual([1, 2])
+        })
+
+        it('should only toggle the matching choices of a group', () => {
+            const model = createModel().setSearch('p').toggleGroup('fruits')
+
+            expect(model.selections.fruits).toEqual(['apple'])
+        })
+
+        it('should move the cursor back to the top when the query changes', () => {
+            const model = createModel().moveCursorToLast()
+
+            expect(model.setSearch('', 0).cursor).toBe(model.cursor)
+            expect(model.setSearch('a').cursor).toBe(0)
+        })
+
+        it('should list only the selected choices', () => {
+            const model = createModel().moveCursor(1).toggle().toggleOnlySelected()
+
+            expect(model.items.filter((item) => !isGroupHeader(item))).toEqual([
+                expect.objectContaining({ value: 'apple' }),
+            ])
+            expect(model.toggleOnlySelected().onlySelected).toBe(false)
+        })
+    })
+
+    describe('cursor', () => {
+        it('should skip disabled choices and wrap around', () => {
+            const model = createModel().moveCursorTo(2)
+
+            expect(model.activeItem).toMatchObject({ value: 'banana' })
+            expect(model.moveCursor(1).activeItem).toMatchObject({ label: 'Vegetables' })
+            expect(createModel().moveCursor(-1).activeItem).toMatchObject({ value: 'pea' })
+        })
+
+        it('should keep the listed items while only the cursor moves', () => {
+            const model = createModel().setSearch('a')
+
+            expect(model.moveCursor(1).nextGroup().items).toBe(model.items)
+            expect(model.setCollapsed('fruits', true).items).not.toBe(model.items)
+        })
+
+        it('should jump between groups', () => {
+            const model = createModel().nextGroup()
+
+            expect(model.currentGroup?.key).toBe('vegetables')
+            expect(model.prevGroup().currentGroup?.key).toBe('fruits')
+        })
+
+        it('should move the cursor to the header of a group that is collapsed around it', () => {
+            const model = createModel().moveCursorTo(2).setCollapsed('fruits', true)
+
+            expect(model.activeItem).toMatchObject({ label: 'Fruits' })
+            expect(model.items).toHaveLength(4)
+            expect(model.expandAll().items).toHaveLength(7)
+        })
+
+        it('should check a range of choices and restore the ones it shrinks away from', () => {
+            const extended = createModel().moveCursorTo(1).extendRange(1).extendRange(1).extendRange(1)
+
+            expect(extended.selections).toEqual({ fruits: ['apple', 'banana'], vegetables: ['carrot'] })
+            expect(extended.extendRange(-1).selections).toEqual({ fruits: ['apple', 'banana'], vegetables: [] })
+            expect(extended.extendRange(-1).extendRange(-1).extendRange(-1).selections).toEqual({
+                fruits: ['apple'],
+                vegetables: [],
+            })
+            expect(extended.moveCursor(-1).extendRange(-1).selections.vegetables).toEqual(['carrot'])
+        })
+
+        it('should paint the choices the cursor moves to in mark mode', () => {
+            const marking = createModel().moveCursor(1).toggleMarking()
+
+            expect(marking.paint).toBe(true)
+            expect(marking.moveCursor(1).moveCursor(1).moveCursor(1).selections).toEqual({
+                fruits: ['apple', 'banana'],
+                vegetables: ['carrot'],
+            })
+            expect(marking.toggleMarking().paint).toBeUndefined()
+            expect(marking.stopMarking().moveCursor(1).selections.fruits).toEqual(['apple'])
+        })
+    })
+
+    describe('apply', () => {
+        it('should apply actions like the matching methods, so that it can be used as a reducer', () => {
+            const actions = [
+                { type: 'moveCursor', direction: 1 },
+                { type: 'toggle' },
+                { type: 'toggleGroup', groupKey: 'vegetables' },
+                { type: 'undo' },
+            ] satisfies GroupedSelectionAction[]
+
+            const reduced = actions.reduce<GroupedSelectionModel<string>>(
+                (state, action) => state.apply(action),
+                createModel(),
+            )
+
+            expect(reduced.selections).toEqual({ fruits: ['apple'], vegetables: [] })
+            expect(reduced.history.redo).toHaveLength(1)
+        })
+    })
+
+    describe('snapshot', () => {
+        it('should restore a model from its snapshot, also when stored as JSON', () => {
+            const model = createModel()
+                .moveCursor(1)
+                .toggle()
+                .setSearch('a')
+                .moveCursor(1)
+                .setCollapsed('vegetables', true)
+            const snapshot = JSON.parse(JSON.stringify(model.snapshot()))
+            const restored = new GroupedSelectionModel({ groups }, snapshot)
+
+            expect(restored.selections).toEqual(model.selections)
+            expect(restored.query).toBe('a')
+            expect(restored.cursor).toBe(model.cursor)
+            expect([...restored.collapsedKeys]).toEqual(['vegetables'])
+            expect(restored.undo().selections.fruits).toEqual([])
+        })
+
+        it('should keep the selection and the active item when the groups change', () => {
+            const model = createModel().moveCursorTo(5).toggle()
+            const updated = model.withGroups([
+                { key: 'extra', label: 'Extra', choices: [{ value: 'salt' }] },
+                ...groups,
+            ])
+
+            expect(updated.selections).toEqual({ extra: [], fruits: [], vegetables: ['carrot'] })
+            expect(updated.activeItem).toMatchObject({ value: 'carrot' })
+        })
+    })
+})
@@ -0,0 +1,96 @@
+import { PassThrough, Writable } from 'node:stream'
+import { bench, describe } from 'vitest'
+import groupedCheckbox from '../src/index.js'
+import type { GroupedCheckboxConfig } from '../src/types.js'
+
+// Run with `pnpm bench`. For typing and navigating to feel smooth, a keystroke should be handled within a frame at
+// 60 fps (16 ms), and bulk actions that change every choice should stay under 100 ms, below which a response feels
+// instant. These are timings, which depend on the machine, so they are not part of the test suite.
+
+// 15,000 choices, as in large dependency catalogs
+const groups = Array.from({ length: 150 }, (_, g) => ({
+    key: `group${g}`,
+    label: `Group ${g}`,
+    choices: Array.from({ length: 100 }, (_, c) => ({ value: `pkg-${g}-${c}`, name: `package-${g}-${c}` })),
+}))
+
+interface Prompt {
+    press: (key: { name: string; ctrl?: boolean }) => void
+    type: (text: string) => void
+    cancel: () => void
+}
+
+/**
+ * Runs the prompt with input and output streams of its own, so that only the prompt's work is measured and not the
+ * screen handling of @inquirer/testing.
+ */
+async function startPrompt(config: Partial<GroupedCheckboxConfig<string>> = {}): Promise<Prompt> {
+    const input = new PassThrough()
+    const output = new Writable({ write: (_chunk, _encoding, callback) => callback() })
+    const answer = groupedCheckbox({ message: 'Select', groups, searchable: true, ...config }, { input, output })
+    answer.catch(() => {})
+    await new Promise((resolve) => setImmediate(resolve))
+
+    return {
+        press: (key) => input.emit('keypress', null, key),
+        type: (text) => input.write(text),
+        cancel: () => answer.cancel(),
+    }
+}
+
+/**
+ * Benchmarks an action on a prompt of its own, started by `setup` before the runs.
+ */
+function benchPrompt(name: string, action: (prompt: Prompt) => void, setup: (prompt: Prompt) => void = () => {}) {
+    let prompt: Prompt | undefined
+
+    bench(name, () => action(prompt!), {
+        setup: async () => {
+            prompt = await startPrompt()
+            setup(prompt)
+        },
+        teardown: () => prompt?.cancel(),
+    })
+}
+
+describe('Performance with 15,000 choices', () => {
+    benchPrompt('move the cursor down', ({ press }) => press({ name: 'down' }))
+
+    benchPrompt('jump to the next group', ({ press }) => press({ name: 'tab' }))
+
+    benchPrompt(
+        'toggle a choice',
+        ({ press }) => press({ name: 'space' }),
+        ({ press }) => press({ name: 'down' }),
+    )
+
+    benchPrompt('type and erase a query', ({ press, type }) => {
+        type('p')
+        press({ name: 'backspace' })
+    })
+
+    benchPrompt(
+        'toggle a choice while searching',
+        ({ press }) => press({ name: 'space' }),
+        ({ press, type }) => {
+            type('package-42-')
+            press({ name: 'down' })
+        },
+    )
+
+    benchPrompt(
+        'undo and redo a toggle',
+        ({ press }) => {
+            press({ name: 'z', ctrl: true })
+            press({ name: 'y', ctrl: true })
+        },
+        ({ press }) => {
+            press({ name: 'down' })
+            press({ name: 'space' })
+        },
+    )
+
+    benchPrompt('toggle every choice', ({ press }) => press({ name: 'a', ctrl: true }))
+
+    benchPrompt('invert every choice', ({ press }) => press({ name: 'i', ctrl: true }))
+})
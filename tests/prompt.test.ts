@@ -1,7 +1,7 @@
 import { render } from '@inquirer/testing'
-import { describe, expect, it } from 'vitest'
-import groupedCheckbox from '../src/index.js'
-import type { GroupedSelections } from '../src/types.js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import groupedCheckbox, { GroupedCheckboxConfigError } from '../src/index.js'
+import type { GroupedSelections, NormalizedChoice } from '../src/types.js'
 
 describe('groupedCheckbox', () => {
     it('should render groups with choices', async () => {
@@ -925,4 +925,1887 @@ describe('groupedCheckbox', () => {
             })
         })
     })
+
+    describe('Nested groups', () => {
+        const nestedGroups = [
+            {
+                key: 'us',
+                label: 'US',
+                groups: [
+                    {
+                        key: 'prod',
+                        label: 'Production',
+                        choices: [
+                            { value: 'api', name: 'API' },
+                            { value: 'web', name: 'Web' },
+                        ],
+                    },
+                    {
+                        key: 'staging',
+                        label: 'Staging',
+                        choices: [{ value: 'api', name: 'API' }],
+                    },
+                ],
+            },
+            {
+                key: 'eu',
+                label: 'EU',
+                choices: [{ value: 'cdn', name: 'CDN' }],
+            },
+        ]
+
+        it('should indent nested group headers and choices', async () => {
+            const { getScreen } = await render(groupedCheckbox, {
+                message: 'Select services',
+                groups: nestedGroups,
+            })
+
+            const lines = getScreen().split('\n')
+            expect(lines.find((line) => line.includes('Production'))).toMatch(/^ {4}◯ Production/)
+            expect(lines.find((line) => line.includes('Web'))).toMatch(/^ {6}◯ Web/)
+        })
+
+        it('should toggle the whole subtree from a parent header', async () => {
+            const { answer, events } = await render(groupedCheckbox, {
+                message: 'Select services',
+                groups: nestedGroups,
+            })
+
+            events.keypress('space') // Toggle everything under US
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({
+                us: [],
+                'us/prod': ['api', 'web'],
+                'us/staging': ['api'],
+                eu: [],
+            })
+        })
+
+        it('should Tab between sibling groups at the same depth', async () => {
+            const { answer, events } = await render(groupedCheckbox, {
+                message: 'Select services',
+                groups: nestedGroups,
+            })
+
+            events.keypress('down') // Production header
+            events.keypress('tab') // Staging header (sibling)
+            events.keypress('down') // Staging API
+            events.keypress('space')
+            events.keypress('tab') // Wraps back to Production header
+            events.keypress('down') // Production API
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({
+                us: [],
+                'us/prod': ['api'],
+                'us/staging': ['api'],
+                eu: [],
+            })
+        })
+
+        it('should jump to the parent group with Left', async () => {
+            const { answer, events } = await render(groupedCheckbox, {
+                message: 'Select services',
+                groups: nestedGroups,
+            })
+
+            events.keypress('down') // Production header
+            events.keypress('down') // Production API
+            events.keypress('left') // Production header
+            events.keypress('left') // Collapses Production
+            events.keypress('left') // US header
+            events.keypress('tab') // EU header
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({
+                us: [],
+                'us/prod': [],
+                'us/staging': [],
+                eu: ['cdn'],
+            })
+        })
+    })
+
+    describe('Collapsible groups', () => {
+        const groups = [
+            {
+                key: 'fruits',
+                label: 'Fruits',
+                choices: [
+                    { value: 'apple', name: 'Apple' },
+                    { value: 'banana', name: 'Banana', checked: true },
+                ],
+            },
+            {
+                key: 'vegetables',
+                label: 'Vegetables',
+                collapsed: true,
+                choices: [
+                    { value: 'carrot', name: 'Carrot' },
+                    { value: 'broccoli', name: 'Broccoli' },
+                ],
+            },
+        ]
+
+        it('should hide the choices of groups that start collapsed but keep their stats', async () => {
+            const { getScreen } = await render(groupedCheckbox, { message: 'Select items', groups })
+
+            expect(getScreen()).toContain('▸ Vegetables')
+            expect(getScreen()).toContain('(0/2)')
+            expect(getScreen()).not.toContain('Carrot')
+        })
+
+        it('should expand with Right and collapse with Left', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Select items', groups })
+
+            events.keypress('left') // Collapse Fruits
+            expect(getScreen()).not.toContain('Apple')
+
+            events.keypress('down') // Vegetables header
+            events.keypress('right') // Expand Vegetables
+            expect(getScreen()).toContain('Carrot')
+
+            events.keypress('right') // Step into Vegetables
+            events.keypress('space') // Select Carrot
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({
+                fruits: ['banana'],
+                vegetables: ['carrot'],
+            })
+        })
+
+        it('should toggle a collapsed group from its header', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Select items', groups })
+
+            events.keypress('tab') // Vegetables header
+            events.keypress('space')
+            expect(getScreen()).toContain('(2/2)')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({
+                fruits: ['banana'],
+                vegetables: ['carrot', 'broccoli'],
+            })
+        })
+
+        it('should collapse and expand all groups with Shift+Left and Shift+Right', async () => {
+            const { events, getScreen } = await render(groupedCheckbox, { message: 'Select items', groups })
+
+            events.keypress({ name: 'right', shift: true })
+            expect(getScreen()).toContain('Apple')
+            expect(getScreen()).toContain('Carrot')
+
+            events.keypress('down') // Apple
+            events.keypress({ name: 'left', shift: true })
+            expect(getScreen()).not.toContain('Apple')
+            expect(getScreen()).not.toContain('Carrot')
+            expect(getScreen()).toMatch(/❯ ◎ ▸ Fruits/)
+        })
+
+        it('should toggle collapse with Enter on a header when collapseOnEnter is set', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select items',
+                groups,
+                collapseOnEnter: true,
+            })
+
+            events.keypress('tab') // Vegetables header
+            events.keypress('enter') // Expand instead of submitting
+            expect(getScreen()).toContain('Carrot')
+
+            events.keypress('down') // Carrot
+            events.keypress('enter') // Submit from a choice
+
+            await expect(answer).resolves.toEqual({
+                fruits: ['banana'],
+                vegetables: [],
+            })
+        })
+
+        it('should auto-expand groups with matches while searching', async () => {
+            const { events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select items',
+                groups,
+                searchable: true,
+            })
+
+            events.type('carr')
+            expect(getScreen()).toContain('Carrot')
+
+            events.keypress('escape')
+            expect(getScreen()).not.toContain('Carrot')
+        })
+    })
+
+    describe('Group limits', () => {
+        const groups = [
+            {
+                key: 'db',
+                label: 'Databases',
+                max: 2,
+                choices: [{ value: 'pg' }, { value: 'mysql' }, { value: 'sqlite' }],
+            },
+            {
+                key: 'region',
+                label: 'Region',
+                mode: 'single' as const,
+                min: 1,
+                choices: [{ value: 'us' }, { value: 'eu' }],
+            },
+        ]
+
+        it('should show limits next to the group stats', async () => {
+            const { getScreen } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            expect(getScreen()).toContain('Databases (0/3) [max 2]')
+            expect(getScreen()).toContain('Region (0/2) [exactly 1]')
+        })
+
+        it('should refuse to check beyond max with an inline message', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('tab') // Region header
+            events.keypress('down') // us
+            events.keypress('space')
+            events.keypress('down') // eu
+            events.keypress('space')
+            expect(getScreen()).toContain('Select at most 1 in Region')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ db: [], region: ['us'] })
+        })
+
+        it('should fill a group up to its max from the header, then clear it', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('space')
+            expect(getScreen()).toContain('Databases (2/3)')
+            expect(getScreen()).toContain('Select at most 2 in Databases')
+
+            events.keypress('space')
+            expect(getScreen()).toContain('Databases (0/3)')
+
+            events.keypress('space')
+            events.keypress('tab') // Region header
+            events.keypress('down') // us
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ db: ['pg', 'mysql'], region: ['us'] })
+        })
+
+        it('should respect limits when toggling all', async () => {
+            const { answer, events } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('a')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ db: ['pg', 'mysql'], region: ['us'] })
+        })
+
+        it('should require min selections on submit', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('enter')
+            expect(getScreen()).toContain('Select at least 1 in Region')
+
+            events.keypress('tab')
+            events.keypress('space') // Region header selects the first region
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ db: [], region: ['us'] })
+        })
+    })
+
+    describe('Radio groups', () => {
+        const groups = [
+            {
+                key: 'runtime',
+                label: 'Runtime',
+                type: 'radio' as const,
+                choices: [
+                    { value: 'node', name: 'Node.js', checked: true },
+                    { value: 'deno', name: 'Deno' },
+                    { value: 'bun', name: 'Bun' },
+                ],
+            },
+            {
+                key: 'tools',
+                label: 'Tools',
+                choices: [
+                    { value: 'eslint', name: 'ESLint' },
+                    { value: 'prettier', name: 'Prettier' },
+                ],
+            },
+        ]
+
+        it('should render radio icons for radio groups', async () => {
+            const { getScreen } = await render(groupedCheckbox, {
+                message: 'Setup',
+                groups,
+                theme: { checkbox: { icon: { radioChecked: '(*)', radioUnchecked: '( )' } } },
+            })
+
+            expect(getScreen()).toContain('(*) Node.js')
+            expect(getScreen()).toContain('( ) Deno')
+            expect(getScreen()).toContain('◯ ESLint')
+        })
+
+        it('should deselect siblings when a radio choice is selected', async () => {
+            const { answer, events } = await render(groupedCheckbox, { message: 'Setup', groups })
+
+            events.keypress('down') // Node.js
+            events.keypress('down') // Deno
+            events.keypress('space')
+            events.keypress('space') // Selecting again keeps it selected
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ runtime: ['deno'], tools: [] })
+        })
+
+        it('should clear a radio group from its header', async () => {
+            const { answer, events } = await render(groupedCheckbox, { message: 'Setup', groups })
+
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ runtime: [], tools: [] })
+        })
+
+        it('should leave radio groups alone when toggling or inverting all', async () => {
+            const { answer, events } = await render(groupedCheckbox, { message: 'Setup', groups })
+
+            events.keypress('a')
+            events.keypress('i')
+            events.keypress('a')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ runtime: ['node'], tools: ['eslint', 'prettier'] })
+        })
+    })
+
+    describe('Choice dependencies', () => {
+        const groups = [
+            {
+                key: 'orm',
+                label: 'ORM',
+                choices: [{ value: 'prisma', name: 'Prisma', requires: [{ group: 'db', value: 'postgres' }] }],
+            },
+            {
+                key: 'db',
+                label: 'Database',
+                choices: [
+                    { value: 'postgres', name: 'PostgreSQL' },
+                    { value: 'sqlite', name: 'SQLite', conflictsWith: ['cluster'] },
+                ],
+            },
+            {
+                key: 'deploy',
+                label: 'Deployment',
+                choices: [{ value: 'cluster', name: 'Cluster mode', id: 'cluster', checked: true }],
+            },
+        ]
+
+        it('should select required choices and explain why', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Stack', groups })
+
+            events.keypress('down') // Prisma
+            events.keypress('space')
+            expect(getScreen()).toContain('Also selected PostgreSQL (required by Prisma)')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ orm: ['prisma'], db: ['postgres'], deploy: ['cluster'] })
+        })
+
+        it('should explain selections made by toggling a group header', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Stack', groups })
+
+            events.keypress('space') // ORM header
+            expect(getScreen()).toContain('Also selected PostgreSQL (required by Prisma)')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ orm: ['prisma'], db: ['postgres'], deploy: ['cluster'] })
+        })
+
+        it('should deselect conflicting choices', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Stack', groups })
+
+            events.keypress('tab') // Database header
+            events.keypress('down') // PostgreSQL
+            events.keypress('down') // SQLite
+            events.keypress('space')
+            expect(getScreen()).toContain('Deselected Cluster mode (conflicts with SQLite)')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ orm: [], db: ['sqlite'], deploy: [] })
+        })
+
+        it('should refuse conflicting choices when conflictResolution is block', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Stack',
+                groups,
+                conflictResolution: 'block',
+            })
+
+            events.keypress('tab') // Database header
+            events.keypress('down') // PostgreSQL
+            events.keypress('down') // SQLite
+            events.keypress('space')
+            expect(getScreen()).toContain('Cannot select SQLite: conflicts with Cluster mode')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ orm: [], db: [], deploy: ['cluster'] })
+        })
+
+        it('should reject the prompt when dependencies are circular', async () => {
+            const { answer } = await render(groupedCheckbox, {
+                message: 'Stack',
+                groups: [
+                    {
+                        key: 'g',
+                        label: 'G',
+                        choices: [
+                            { value: 'a', id: 'a', requires: ['b'] },
+                            { value: 'b', id: 'b', requires: ['a'] },
+                        ],
+                    },
+                ],
+            })
+
+            await expect(answer).rejects.toThrow('Circular requirement: a → b → a')
+        })
+    })
+
+    describe('Fuzzy search', () => {
+        const groups = [
+            {
+                key: 'db',
+                label: 'Databases',
+                choices: [
+                    { value: 'sequel', name: 'Sequel Pro' },
+                    { value: 'mysql', name: 'MySQL' },
+                    { value: 'postgres', name: 'PostgreSQL' },
+                ],
+            },
+        ]
+
+        it('should find choices by fuzzy query and highlight matched characters', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+                searchMode: 'fuzzy',
+                theme: { checkbox: { style: { match: (text: string) => `[${text}]` } } },
+            })
+
+            events.type('pgsql')
+            expect(getScreen()).toContain('[P]ost[g]re[SQL]')
+            expect(getScreen()).not.toContain('MySQL')
+
+            events.keypress('down')
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ db: ['postgres'] })
+        })
+
+        it('should order matches by score when sortByScore is set', async () => {
+            const { events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+                searchMode: 'fuzzy',
+                sortByScore: true,
+            })
+
+            events.type('sql')
+            const screen = getScreen()
+            expect(screen.indexOf('MySQL')).toBeLessThan(screen.indexOf('Sequel Pro'))
+        })
+    })
+
+    describe('Search fields', () => {
+        const groups = [
+            {
+                key: 'db',
+                label: 'Databases',
+                choices: [
+                    { value: 'postgres', name: 'PostgreSQL', description: 'Relational', keywords: ['psql'] },
+                    { value: 'redis', name: 'Redis', description: 'Key-value store' },
+                ],
+            },
+        ]
+
+        it('should find choices by keyword', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+            })
+
+            events.type('psql')
+            expect(getScreen()).toContain('PostgreSQL')
+            expect(getScreen()).not.toContain('Redis')
+
+            events.keypress('down')
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ db: ['postgres'] })
+        })
+
+        it('should search the configured fields', async () => {
+            const { getScreen, events } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+                searchFields: ['description'],
+            })
+
+            events.type('store')
+            expect(getScreen()).toContain('Redis')
+            expect(getScreen()).not.toContain('PostgreSQL')
+        })
+    })
+
+    describe('Query syntax', () => {
+        const groups = [
+            {
+                key: 'db',
+                label: 'Databases',
+                choices: [
+                    { value: 'postgres', name: 'PostgreSQL', checked: true },
+                    { value: 'mysql', name: 'MySQL' },
+                    { value: 'oracle', name: 'Oracle (legacy)' },
+                ],
+            },
+            { key: 'cache', label: 'Cache', choices: [{ value: 'redis', name: 'Redis' }] },
+        ]
+
+        it('should filter with structured queries and show the parsed terms', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+                querySyntax: true,
+            })
+
+            events.type('group:db checked:no -legacy')
+            const screen = getScreen()
+            expect(screen).toContain('[group:db] [checked:no] [-legacy]')
+            expect(screen).toContain('MySQL')
+            expect(screen).not.toContain('PostgreSQL')
+            expect(screen).not.toContain('Oracle')
+            expect(screen).not.toContain('Redis')
+
+            events.keypress('down')
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ db: ['postgres', 'mysql'], cache: [] })
+        })
+
+        it('should search invalid syntax as plain text', async () => {
+            const { getScreen, events } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+                querySyntax: true,
+            })
+
+            events.type('"my')
+            expect(getScreen()).toContain('["my]')
+            expect(getScreen()).toContain('No matches found')
+        })
+    })
+
+    describe('Custom filter', () => {
+        const groups = [
+            {
+                key: 'deps',
+                label: 'Dependencies',
+                choices: [
+                    { value: 'react', name: 'react@18.2.0' },
+                    { value: 'vue', name: 'vue@3.4.0' },
+                    { value: 'svelte', name: 'svelte@4.2.0' },
+                ],
+            },
+        ]
+        const filter = (choice: NormalizedChoice<string>, query: string) =>
+            Number(choice.name.split('@')[1]!.split('.')[0]) >= Number(query)
+
+        it('should filter with the custom test on every keystroke', async () => {
+            const { getScreen, events } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+                filter,
+            })
+
+            events.type('4')
+            expect(getScreen()).toContain('react@18.2.0')
+            expect(getScreen()).toContain('svelte@4.2.0')
+            expect(getScreen()).not.toContain('vue@3.4.0')
+
+            events.type('0')
+            expect(getScreen()).not.toContain('svelte@4.2.0')
+        })
+
+        it('should only toggle matching choices from the group header', async () => {
+            const { answer, events } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+                filter,
+            })
+
+            events.type('4')
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ deps: ['react', 'svelte'] })
+        })
+    })
+
+    describe('Search input', () => {
+        const groups = [
+            {
+                key: 'misc',
+                label: 'Misc',
+                choices: [
+                    { value: 'cafe', name: 'Café au lait' },
+                    { value: 'jp', name: '日本語' },
+                    { value: 'scoped', name: '@scope/pkg' },
+                    { value: 'rocket', name: '🚀 Rocket' },
+                ],
+            },
+        ]
+
+        it('should accept any printable text', async () => {
+            const { getScreen, events } = await render(groupedCheckbox, { message: 'Select', groups, searchable: true })
+
+            events.type('Café')
+            expect(getScreen()).toContain('[Café]')
+            expect(getScreen()).toContain('Café au lait')
+            expect(getScreen()).not.toContain('日本語')
+
+            events.keypress('escape')
+            events.type('日本')
+            expect(getScreen()).toContain('日本語')
+            expect(getScreen()).not.toContain('Café au lait')
+
+            events.keypress('escape')
+            events.type('@scope/')
+            expect(getScreen()).toContain('@scope/pkg')
+
+            events.keypress('escape')
+            events.type('🚀')
+            expect(getScreen()).toContain('🚀 Rocket')
+            expect(getScreen()).not.toContain('@scope/pkg')
+        })
+
+        it('should insert a bracketed paste at once', async () => {
+            const { answer, input, events, getScreen, getFullOutput } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+            })
+            expect(await getFullOutput({ raw: true })).toContain('\u001b[?2004h')
+
+            input.write('\u001b[200~au lait\n\u001b[201~')
+            expect(getScreen()).toContain('[au lait ]')
+            expect(getScreen()).toContain('Café au lait')
+            expect(getScreen()).not.toContain('Rocket')
+
+            events.keypress('down')
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ misc: ['cafe'] })
+        })
+
+        it('should edit the query at the cursor', async () => {
+            const { getScreen, events, input } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+            })
+
+            events.type('pg')
+            events.keypress('left')
+            events.type('k')
+            expect(getScreen()).toContain('[pkg]')
+            expect(getScreen()).toContain('@scope/pkg')
+
+            events.keypress('right')
+            input.write('\u001b[200~ @scope/\u001b[201~')
+            expect(getScreen()).toContain('[pkg @scope/]')
+
+            events.keypress({ name: 'w', ctrl: true })
+            expect(getScreen()).toContain('[pkg ]')
+
+            events.keypress({ name: 'u', ctrl: true })
+            expect(getScreen()).not.toContain('[')
+            expect(getScreen()).toContain('Café au lait')
+        })
+
+        it('should keep Ctrl shortcuts working', async () => {
+            const { answer, events } = await render(groupedCheckbox, { message: 'Select', groups, searchable: true })
+
+            events.type('a')
+            events.keypress({ name: 'a', ctrl: true })
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ misc: ['cafe'] })
+        })
+    })
+
+    describe('Async groups', () => {
+        const flush = () => new Promise((resolve) => setImmediate(resolve))
+
+        const deferred = <T>() => {
+            let resolve!: (value: T) => void
+            let reject!: (error: Error) => void
+            const promise = new Promise<T>((res, rej) => {
+                resolve = res
+                reject = rej
+            })
+            return { promise, resolve, reject }
+        }
+
+        it('should show a spinner until the choices are loaded', async () => {
+            const regions = deferred<Array<{ value: string; name: string }>>()
+            const { getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [
+                    { key: 'static', label: 'Static', choices: [{ value: 'local', name: 'Local' }] },
+                    { key: 'regions', label: 'Regions', choices: () => regions.promise },
+                ],
+            })
+
+            expect(getScreen()).toContain('Local')
+            expect(getScreen()).toMatch(/Regions .* Loading…/)
+
+            regions.resolve([{ value: 'eu', name: 'Europe' }])
+            await flush()
+
+            expect(getScreen()).toContain('Europe')
+            expect(getScreen()).not.toContain('Loading…')
+        })
+
+        it('should show load errors and retry', async () => {
+            let attempts = 0
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [
+                    {
+                        key: 'regions',
+                        label: 'Regions',
+                        choices: async () => {
+                            attempts++
+                            if (attempts === 1) {
+                                throw new Error('Service unavailable')
+                            }
+                            return [{ value: 'eu', name: 'Europe' }]
+                        },
+                    },
+                ],
+            })
+            await flush()
+
+            expect(getScreen()).toContain('Failed to load: Service unavailable (r to retry)')
+
+            events.keypress('r')
+            await flush()
+
+            expect(attempts).toBe(2)
+            expect(getScreen()).toContain('Europe')
+
+            events.keypress('down')
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ regions: ['eu'] })
+        })
+
+        it('should wait for loading groups before submitting', async () => {
+            const regions = deferred<Array<{ value: string; checked?: boolean }>>()
+            const { answer, events } = await render(groupedCheckbox, {
+                message: 'Select',
+                required: true,
+                groups: [{ key: 'regions', label: 'Regions', choices: regions.promise }],
+            })
+
+            events.keypress('enter')
+            regions.resolve([{ value: 'eu', checked: true }, { value: 'us' }])
+
+            await expect(answer).resolves.toEqual({ regions: ['eu'] })
+        })
+
+        it('should fail to load a group whose choices require unknown choices', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [
+                    { key: 'a', label: 'A', choices: [{ value: 'x' }] },
+                    { key: 'b', label: 'B', choices: async () => [{ value: 'y', requires: ['missing-id'] }] },
+                ],
+            })
+            await flush()
+
+            expect(getScreen()).toContain('Failed to load: Unknown choice "missing-id" in requires of "y"')
+
+            events.keypress('enter')
+            await expect(answer).resolves.toEqual({ a: [], b: [] })
+        })
+    })
+
+    describe('Search source', () => {
+        const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+        const packages = ['react', 'react-dom', 'vue', 'svelte']
+        const source = async (query: string) => [
+            {
+                key: 'packages',
+                label: 'Packages',
+                choices: packages.filter((name) => name.includes(query)).map((name) => ({ value: name })),
+            },
+        ]
+
+        it('should show the results for the query', async () => {
+            const { getScreen, events } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [],
+                source,
+                searchDebounce: 0,
+            })
+            expect(getScreen()).toContain('Searching…')
+
+            await wait(10)
+            expect(getScreen()).toContain('svelte')
+
+            events.type('react')
+            expect(getScreen()).toContain('Searching…')
+
+            await wait(10)
+            expect(getScreen()).toContain('react-dom')
+            expect(getScreen()).not.toContain('svelte')
+            expect(getScreen()).not.toContain('Searching…')
+        })
+
+        it('should debounce queries and abort stale requests', async () => {
+            const calls: Array<{ query: string; signal: AbortSignal }> = []
+            const { events } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [],
+                source: (query, { signal }) => {
+                    calls.push({ query, signal })
+                    return new Promise(() => {})
+                },
+                searchDebounce: 20,
+            })
+            await wait(40)
+
+            events.type('vue')
+            await wait(40)
+
+            expect(calls.map((call) => call.query)).toEqual(['', 'vue'])
+            expect(calls[0]?.signal.aborted).toBe(true)
+            expect(calls[1]?.signal.aborted).toBe(false)
+        })
+
+        it('should keep selections made across queries', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [],
+                source,
+                searchDebounce: 0,
+            })
+
+            events.type('react-')
+            await wait(10)
+            events.keypress('down')
+            events.keypress('space')
+
+            events.keypress('escape')
+            events.type('vue')
+            await wait(10)
+            expect(getScreen()).toContain('vue')
+            expect(getScreen()).toContain('react-dom')
+
+            events.keypress('down')
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ packages: ['vue', 'react-dom'] })
+        })
+
+        it('should show search errors', async () => {
+            const { getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [],
+                source: () => Promise.reject(new Error('Registry unavailable')),
+                searchDebounce: 0,
+            })
+            await wait(10)
+
+            expect(getScreen()).toContain('Search failed: Registry unavailable')
+        })
+
+        it('should fail the search when the results cannot be listed', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [],
+                source: async (query: string) => [
+                    {
+                        key: 'packages',
+                        label: 'Packages',
+                        choices: query
+                            ? [{ value: 'vue' }]
+                            : [
+                                  { value: 'a', id: 'a', requires: ['b'] },
+                                  { value: 'b', id: 'b', requires: ['a'] },
+                              ],
+                    },
+                ],
+                searchDebounce: 0,
+            })
+            await wait(10)
+
+            expect(getScreen()).toContain('Search failed: Circular requirement')
+
+            events.type('vue')
+            await wait(10)
+            events.keypress('down')
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ packages: ['vue'] })
+        })
+    })
+
+    describe('Selected only view', () => {
+        const groups = [
+            {
+                key: 'fruits',
+                label: 'Fruits',
+                choices: [
+                    { value: 'apple', name: 'Apple', checked: true },
+                    { value: 'banana', name: 'Banana' },
+                    { value: 'cherry', name: 'Cherry', checked: true },
+                ],
+            },
+            { key: 'vegetables', label: 'Vegetables', choices: [{ value: 'carrot', name: 'Carrot' }] },
+        ]
+
+        it('should toggle a view of the checked choices', async () => {
+            const { getScreen, events } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('s')
+            expect(getScreen()).toContain('[selected only]')
+            expect(getScreen()).toContain('Apple')
+            expect(getScreen()).toContain('Cherry')
+            expect(getScreen()).not.toContain('Banana')
+            expect(getScreen()).not.toContain('Vegetables')
+
+            events.keypress('s')
+            expect(getScreen()).not.toContain('[selected only]')
+            expect(getScreen()).toContain('Banana')
+        })
+
+        it('should toggle and invert only the visible choices', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('s')
+            events.keypress('i')
+            expect(getScreen()).toContain('Nothing selected')
+
+            events.keypress('s')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: [], vegetables: [] })
+        })
+
+        it('should keep the cursor on the list when unchecking', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('s')
+            events.keypress('down')
+            events.keypress('space')
+            expect(getScreen()).not.toContain('Apple')
+            expect(getScreen()).toContain('❯ ◉ Cherry')
+
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: [], vegetables: [] })
+        })
+    })
+
+    describe('Undo and redo', () => {
+        const groups = [
+            {
+                key: 'fruits',
+                label: 'Fruits',
+                choices: [
+                    { value: 'apple', name: 'Apple', checked: true },
+                    { value: 'banana', name: 'Banana' },
+                    { value: 'cherry', name: 'Cherry' },
+                ],
+            },
+        ]
+
+        it('should undo and redo selection changes', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('i')
+            events.keypress({ name: 'z', ctrl: true })
+            expect(getScreen()).toContain('Undid: invert 3 items')
+            expect(getScreen()).toContain('◉ Apple')
+
+            events.keypress({ name: 'y', ctrl: true })
+            expect(getScreen()).toContain('Redid: invert 3 items')
+
+            events.keypress({ name: 'z', ctrl: true })
+            events.keypress({ name: 'z', ctrl: true })
+            expect(getScreen()).toContain('Nothing to undo')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: ['apple'] })
+        })
+
+        it('should undo a group toggle as one change', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('space')
+            events.keypress('space')
+            expect(getScreen()).toContain('(0/3)')
+
+            events.keypress({ name: 'z', ctrl: true })
+            expect(getScreen()).toContain('Undid: deselect 3 items')
+            events.keypress({ name: 'z', ctrl: true })
+            expect(getScreen()).toContain('Undid: select 2 items')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: ['apple'] })
+        })
+
+        it('should use the configured keys and history size', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                keybindings: { undo: 'u', redo: 'shift+u' },
+                historySize: 1,
+            })
+
+            events.keypress('down')
+            events.keypress('down')
+            events.keypress('space')
+            events.keypress('down')
+            events.keypress('space')
+            events.keypress('u')
+            expect(getScreen()).toContain('Undid: select Cherry')
+            events.keypress('u')
+            expect(getScreen()).toContain('Nothing to undo')
+
+            events.keypress({ name: 'u', shift: true })
+            expect(getScreen()).toContain('Redid: select Cherry')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: ['apple', 'banana', 'cherry'] })
+        })
+    })
+
+    describe('Range selection and mark mode', () => {
+        const groups = [
+            {
+                key: 'fruits',
+                label: 'Fruits',
+                choices: [
+                    { value: 'apple', name: 'Apple' },
+                    { value: 'banana', name: 'Banana', checked: true },
+                ],
+            },
+            {
+                key: 'vegetables',
+                label: 'Vegetables',
+                choices: [
+                    { value: 'carrot', name: 'Carrot' },
+                    { value: 'potato', name: 'Potato', disabled: true },
+                    { value: 'pea', name: 'Pea' },
+                ],
+            },
+        ]
+
+        it('should check a range across group headers with Shift+Down', async () => {
+            const { answer, events } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('down')
+            events.keypress({ name: 'down', shift: true })
+            events.keypress({ name: 'down', shift: true })
+            events.keypress({ name: 'down', shift: true })
+            events.keypress({ name: 'down', shift: true })
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: ['apple', 'banana'], vegetables: ['carrot', 'pea'] })
+        })
+
+        it('should restore choices that leave the range as it shrinks', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('down')
+            events.keypress('down')
+            events.keypress('space')
+            events.keypress({ name: 'down', shift: true })
+            events.keypress({ name: 'down', shift: true })
+            expect(getScreen()).toContain('◉ Carrot')
+
+            events.keypress({ name: 'up', shift: true })
+            events.keypress({ name: 'up', shift: true })
+            expect(getScreen()).toContain('◯ Carrot')
+            // The range always covers the row it started from
+            expect(getScreen()).toContain('❯ ◉ Banana')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: ['banana'], vegetables: [] })
+        })
+
+        it('should not wrap a range around the list', async () => {
+            const { answer, events } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress({ name: 'up', shift: true })
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: ['banana'], vegetables: [] })
+        })
+
+        it('should paint the state of the first choice onto the choices the cursor moves to in mark mode', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('down')
+            events.keypress('v')
+            expect(getScreen()).toContain('[marking: select]')
+
+            events.keypress('down')
+            events.keypress('down')
+            events.keypress('down')
+            events.keypress('down')
+            events.keypress('v')
+            expect(getScreen()).not.toContain('[marking')
+
+            events.keypress('up')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: ['apple', 'banana'], vegetables: ['carrot', 'pea'] })
+        })
+
+        it('should paint unchecks when starting on a checked choice', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+            })
+
+            events.keypress('down')
+            events.keypress('down')
+            events.keypress({ name: 'v', ctrl: true })
+            expect(getScreen()).toContain('[marking: deselect]')
+
+            events.keypress('up')
+            events.keypress('escape')
+            events.keypress('down')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: [], vegetables: [] })
+        })
+    })
+
+    describe('Page and group navigation', () => {
+        const groups = [
+            {
+                key: 'fruits',
+                label: 'Fruits',
+                choices: [
+                    { value: 'apple', name: 'Apple' },
+                    { value: 'banana', name: 'Banana' },
+                    { value: 'cherry', name: 'Cherry' },
+                ],
+            },
+            {
+                key: 'vegetables',
+                label: 'Vegetables',
+                choices: [
+                    { value: 'carrot', name: 'Carrot' },
+                    { value: 'potato', name: 'Potato', disabled: true },
+                ],
+            },
+            { key: 'grains', label: 'Grains', choices: [{ value: 'rice', name: 'Rice' }] },
+        ]
+
+        it('should move by the page size with PageUp and PageDown', async () => {
+            const { events, getScreen } = await render(groupedCheckbox, { message: 'Select', groups, pageSize: 3 })
+
+            events.keypress('pagedown')
+            expect(getScreen()).toContain('❯ ◯ Cherry')
+
+            // Potato is disabled, so the cursor stops just before it
+            events.keypress('pagedown')
+            expect(getScreen()).toContain('❯ ◯ Carrot')
+
+            events.keypress('pageup')
+            expect(getScreen()).toContain('❯ ◯ Banana')
+        })
+
+        it('should jump to the first and last selectable item with Home and End', async () => {
+            const { events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: groups.slice(0, 2),
+            })
+
+            events.keypress('end')
+            expect(getScreen()).toContain('❯ ◯ Carrot')
+
+            events.keypress('home')
+            expect(getScreen()).toContain('❯ ◯ Fruits')
+        })
+
+        it('should jump to the Nth group with a digit', async () => {
+            const { events, getScreen } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('3')
+            expect(getScreen()).toContain('❯ ◯ Grains')
+
+            events.keypress('2')
+            expect(getScreen()).toContain('❯ ◯ Vegetables')
+
+            events.keypress('9')
+            expect(getScreen()).toContain('❯ ◯ Vegetables')
+        })
+
+        it('should jump to the Nth matching group with Alt+digit when searchable', async () => {
+            const { events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+            })
+
+            events.type('r')
+            events.keypress({ name: '2', meta: true })
+            expect(getScreen()).toContain('[r]')
+            expect(getScreen()).toContain('❯ ◯ Vegetables')
+
+            events.type('2')
+            expect(getScreen()).toContain('[r2]')
+        })
+    })
+
+    describe('Keybindings', () => {
+        const groups = [
+            {
+                key: 'fruits',
+                label: 'Fruits',
+                choices: [
+                    { value: 'apple', name: 'Apple' },
+                    { value: 'banana', name: 'Banana' },
+                ],
+            },
+            { key: 'vegetables', label: 'Vegetables', choices: [{ value: 'carrot', name: 'Carrot' }] },
+        ]
+
+        it('should use the configured keys for actions', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                keybindings: { down: ['down', 'j'], up: ['up', 'k'], toggle: 'x', invert: 'ctrl+i', submit: 'ctrl+o' },
+            })
+
+            events.keypress('j')
+            events.keypress('j')
+            events.keypress('k')
+            events.keypress('x')
+            expect(getScreen()).toContain('❯ ◉ Apple')
+
+            events.keypress('i')
+            expect(getScreen()).toContain('❯ ◉ Apple')
+            events.keypress('space')
+            events.keypress('enter')
+            expect(getScreen()).toContain('❯ ◉ Apple')
+
+            events.keypress({ name: 'o', ctrl: true })
+
+            await expect(answer).resolves.toEqual({ fruits: ['apple'], vegetables: [] })
+        })
+
+        it('should generate the help line from the active keys', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                keybindings: { toggle: ['space', 'x'], toggleAll: [], mark: 'm' },
+            })
+
+            expect(getScreen()).toContain(
+                '(Select: space/x • Invert: i • Expand/collapse: →/← • Selected only: s • Mark: m)',
+            )
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: [], vegetables: [] })
+        })
+
+        it('should report conflicting keys when the prompt opens', async () => {
+            const { answer } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                keybindings: { nextGroup: 'n', toggleAll: 'n' },
+            })
+
+            await expect(answer).rejects.toThrow('Key "n" is bound to both toggleAll and nextGroup')
+        })
+    })
+
+    describe('Vim navigation mode', () => {
+        const groups = [
+            {
+                key: 'fruits',
+                label: 'Fruits',
+                choices: [
+                    { value: 'apple', name: 'Apple' },
+                    { value: 'banana', name: 'Banana' },
+                ],
+            },
+            {
+                key: 'vegetables',
+                label: 'Vegetables',
+                choices: [
+                    { value: 'carrot', name: 'Carrot' },
+                    { value: 'cabbage', name: 'Cabbage' },
+                ],
+            },
+        ]
+
+        it('should move with j/k and gg/G and toggle with x', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+                navigationMode: 'vim',
+            })
+
+            events.keypress('j')
+            events.keypress('j')
+            events.keypress('x')
+            expect(getScreen()).toContain('❯ ◉ Banana')
+
+            events.keypress({ name: 'g', shift: true })
+            expect(getScreen()).toContain('❯ ◯ Cabbage')
+            events.keypress('k')
+            expect(getScreen()).toContain('❯ ◯ Carrot')
+
+            events.keypress('g')
+            events.keypress('g')
+            expect(getScreen()).toContain('❯ ◎ Fruits')
+            expect(getScreen()).toContain('Toggle all: a')
+            expect(getScreen()).toContain('Search: /')
+            expect(getScreen()).not.toContain('Type to search')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: ['banana'], vegetables: [] })
+        })
+
+        it('should type a search after a slash and jump between matches with n/N', async () => {
+            const { answer, events, getScreen, input } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+                navigationMode: 'vim',
+            })
+
+            input.write('/')
+            expect(getScreen()).toContain('(Back to the list: enter/escape • Type to search)')
+
+            input.write('ca')
+            expect(getScreen()).toContain('/ca')
+            expect(getScreen()).not.toContain('Apple')
+
+            events.keypress('escape')
+            expect(getScreen()).toContain('[ca]')
+            expect(getScreen()).toContain('Next/previous match: n/shift+n')
+
+            events.keypress('n')
+            expect(getScreen()).toContain('❯ ◯ Carrot')
+            events.keypress('n')
+            expect(getScreen()).toContain('❯ ◯ Cabbage')
+            events.keypress('n')
+            expect(getScreen()).toContain('❯ ◯ Carrot')
+            events.keypress({ name: 'n', shift: true })
+            expect(getScreen()).toContain('❯ ◯ Cabbage')
+
+            events.keypress('x')
+            events.keypress('escape')
+            expect(getScreen()).not.toContain('[ca]')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: [], vegetables: ['cabbage'] })
+        })
+
+        it('should type command letters into the search while typing one', async () => {
+            const { answer, events, getScreen, input } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+                navigationMode: 'vim',
+            })
+
+            input.write('/jx')
+            events.keypress('enter')
+            expect(getScreen()).toContain('[jx]')
+            expect(getScreen()).toContain('No matches found')
+
+            events.keypress('escape')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: [], vegetables: [] })
+        })
+    })
+
+    describe('Type-ahead', () => {
+        const groups = [
+            {
+                key: 'fruits',
+                label: 'Fruits',
+                choices: [
+                    { value: 'apple', name: 'Apple' },
+                    { value: 'banana', name: 'Banana' },
+                    { value: 'blueberry', name: 'Blueberry' },
+                ],
+            },
+            { key: 'vegetables', label: 'Vegetables', choices: [{ value: 'broccoli', name: 'Broccoli' }] },
+        ]
+
+        afterEach(() => {
+            vi.restoreAllMocks()
+        })
+
+        it('should jump to the choice starting with the typed letters', async () => {
+            const { answer, events, getScreen, input } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            input.write('bl')
+            expect(getScreen()).toContain('❯ ◯ Blueberry')
+
+            input.write('b')
+            expect(getScreen()).toContain('❯ ◯ Blueberry')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: [], vegetables: [] })
+        })
+
+        it('should start over after a pause, stepping through choices with the same letter', async () => {
+            const now = vi.spyOn(Date, 'now').mockReturnValue(0)
+            const { getScreen, input } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            input.write('b')
+            expect(getScreen()).toContain('❯ ◯ Banana')
+
+            now.mockReturnValue(2000)
+            input.write('b')
+            expect(getScreen()).toContain('❯ ◯ Blueberry')
+
+            now.mockReturnValue(2500)
+            input.write('b')
+            expect(getScreen()).toContain('❯ ◯ Broccoli')
+        })
+
+        it('should let shortcuts run unless they continue a name being typed', async () => {
+            const { answer, events, getScreen, input } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            input.write('a')
+            expect(getScreen()).toContain('(4/4)')
+
+            input.write('ba')
+            expect(getScreen()).toContain('❯ ◉ Banana')
+            expect(getScreen()).toContain('(4/4)')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({
+                fruits: ['apple', 'banana', 'blueberry'],
+                vegetables: ['broccoli'],
+            })
+        })
+
+        it('should give letters to type-ahead first when configured', async () => {
+            const { answer, events, getScreen, input } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                typeAhead: 'typeAhead',
+            })
+
+            input.write('a')
+            expect(getScreen()).toContain('❯ ◯ Apple')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: [], vegetables: [] })
+        })
+
+        it('should be turned off with false', async () => {
+            const { getScreen, input } = await render(groupedCheckbox, { message: 'Select', groups, typeAhead: false })
+
+            input.write('b')
+            expect(getScreen()).toContain('❯ ◯ Fruits')
+        })
+    })
+
+    describe('Partially selected groups', () => {
+        const groups = [
+            {
+                key: 'fruits',
+                label: 'Fruits',
+                choices: [
+                    { value: 'apple', name: 'Apple', checked: true },
+                    { value: 'banana', name: 'Banana' },
+                ],
+            },
+            { key: 'vegetables', label: 'Vegetables', choices: [{ value: 'carrot', name: 'Carrot', checked: true }] },
+        ]
+
+        it('should show the indeterminate icon on the header', async () => {
+            const { getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                theme: { checkbox: { icon: { indeterminate: '[-]' } } },
+            })
+
+            expect(getScreen()).toContain('❯ [-] Fruits (1/2)')
+            expect(getScreen()).toContain('◉ Vegetables (1/1)')
+        })
+
+        it('should pass the selection state to the header style', async () => {
+            const { getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                theme: { checkbox: { style: { groupHeader: (text, _icon, selection) => `${text} <${selection}>` } } },
+            })
+
+            expect(getScreen()).toContain('Fruits <partial>')
+            expect(getScreen()).toContain('Vegetables <all>')
+        })
+
+        it('should select the rest of the group with space by default', async () => {
+            const { answer, events } = await render(groupedCheckbox, { message: 'Select', groups })
+
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: ['apple', 'banana'], vegetables: ['carrot'] })
+        })
+
+        it('should clear the group with space when configured', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                partialGroupToggle: 'clear',
+            })
+
+            events.keypress('space')
+            expect(getScreen()).toContain('❯ ◯ Fruits (0/2)')
+
+            events.keypress('space')
+            expect(getScreen()).toContain('❯ ◉ Fruits (2/2)')
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ fruits: ['apple', 'banana'], vegetables: ['carrot'] })
+        })
+    })
+
+    describe('Choice identity', () => {
+        const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+        it('should not toggle the same value in another group', async () => {
+            const { answer, events, input } = await render(groupedCheckbox, {
+                message: 'Select',
+                searchable: true,
+                groups: [
+                    { key: 'frontend', label: 'Frontend', choices: [{ value: 'lodash', name: 'lodash (frontend)' }] },
+                    { key: 'backend', label: 'Backend', choices: [{ value: 'lodash', name: 'lodash (backend)' }] },
+                ],
+            })
+
+            input.write('frontend')
+            events.keypress({ name: 'a', ctrl: true })
+            events.keypress('escape')
+            events.keypress('down')
+            events.keypress('down')
+            events.keypress('down')
+            events.keypress('space')
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ frontend: ['lodash'], backend: ['lodash'] })
+        })
+
+        it('should keep selections of object values recreated by each search with getKey', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [],
+                source: async (query: string) => [
+                    {
+                        key: 'packages',
+                        label: 'Packages',
+                        choices: ['react', 'vue']
+                            .filter((name) => name.includes(query))
+                            .map((name) => ({ value: { name }, name })),
+                    },
+                ],
+                getKey: (pkg) => pkg.name,
+                searchDebounce: 0,
+            })
+            await wait(10)
+
+            events.keypress('down')
+            events.keypress('space')
+            events.type('r')
+            await wait(10)
+            expect(getScreen()).toContain('◉ react')
+            expect(getScreen().match(/react/g)).toHaveLength(1)
+
+            events.keypress('enter')
+
+            await expect(answer).resolves.toEqual({ packages: [{ name: 'react' }] })
+        })
+
+        it('should report duplicate ids', async () => {
+            const { answer } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [
+                    { key: 'a', label: 'A', choices: [{ value: 1, id: 'one' }] },
+                    { key: 'b', label: 'B', choices: [{ value: 2, id: 'one' }] },
+                ],
+            })
+
+            await expect(answer).rejects.toThrow('Choice id "one" is used more than once')
+        })
+
+        it('should fail to load a group whose choices duplicate an id, and keep the prompt running', async () => {
+            let attempts = 0
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [
+                    { key: 'a', label: 'A', choices: [{ value: 'x', id: 'dup' }] },
+                    {
+                        key: 'b',
+                        label: 'B',
+                        choices: async () => {
+                            attempts++
+                            return [{ value: 'y', id: attempts === 1 ? 'dup' : 'unique' }]
+                        },
+                    },
+                ],
+            })
+            await wait(10)
+
+            expect(getScreen()).toContain('Failed to load: Duplicate choice id "dup" (r to retry)')
+
+            events.keypress('r')
+            await wait(10)
+            expect(getScreen()).toContain('y')
+
+            events.keypress('enter')
+            await expect(answer).resolves.toEqual({ a: [], b: [] })
+        })
+    })
+
+    describe('Config validation', () => {
+        it('should reject invalid configs before showing anything', async () => {
+            const { answer, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [
+                    { key: 'g', label: 'G', choices: [{ value: 'a' }] },
+                    { key: 'g', label: 'G', choices: [{ value: 'b' }] },
+                ],
+            })
+
+            await expect(answer).rejects.toThrow(GroupedCheckboxConfigError)
+            expect(getScreen()).not.toContain('G')
+        })
+
+        it('should reject configs with warnings in strict mode', async () => {
+            const { answer } = await render(groupedCheckbox, {
+                message: 'Select',
+                strict: true,
+                groups: [
+                    { key: 'a', label: 'A', choices: [{ value: 'a' }] },
+                    { key: 'b', label: 'B', choices: [] },
+                ],
+            })
+
+            await expect(answer).rejects.toThrow('Invalid config: Group "b" has no choices')
+        })
+
+        it('should show warnings in the prompt until the first keypress', async () => {
+            const emitWarning = vi.spyOn(process, 'emitWarning')
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [
+                    { key: 'a', label: 'A', choices: [{ value: 'a' }] },
+                    { key: 'b', label: 'B', choices: [] },
+                ],
+            })
+
+            expect(getScreen()).toContain('Warning: Group "b" has no choices')
+            expect(emitWarning).not.toHaveBeenCalled()
+
+            events.keypress('down')
+            expect(getScreen()).not.toContain('Warning')
+
+            events.keypress('enter')
+            await answer
+            emitWarning.mockRestore()
+        })
+
+        it('should reject key binding and dependency problems with a config error', async () => {
+            const conflictingKeys = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [{ key: 'a', label: 'A', choices: [{ value: 'a' }] }],
+                keybindings: { toggleAll: 'i' },
+            })
+            await expect(conflictingKeys.answer).rejects.toThrow(GroupedCheckboxConfigError)
+
+            const cycle = await render(groupedCheckbox, {
+                message: 'Select',
+                groups: [
+                    {
+                        key: 'a',
+                        label: 'A',
+                        choices: [
+                            { value: 'x', requires: [{ group: 'a', value: 'y' }] },
+                            { value: 'y', requires: [{ group: 'a', value: 'x' }] },
+                        ],
+                    },
+                ],
+            })
+            await expect(cycle.answer).rejects.toThrow(GroupedCheckboxConfigError)
+            await expect(cycle.answer).rejects.toThrow('Circular requirement: x → y → x')
+        })
+    })
+
+    describe('Change callbacks', () => {
+        const groups = [
+            {
+                key: 'fruits',
+                label: 'Fruits',
+                choices: [
+                    { value: 'apple', name: 'Apple' },
+                    { value: 'banana', name: 'Banana' },
+                ],
+            },
+            { key: 'vegetables', label: 'Vegetables', choices: [{ value: 'carrot', name: 'Carrot' }] },
+        ]
+
+        it('should call onChange with the selections and what changed', async () => {
+            const onChange = vi.fn()
+            const { answer, events } = await render(groupedCheckbox, { message: 'Select', groups, onChange })
+
+            events.keypress('down')
+            expect(onChange).not.toHaveBeenCalled()
+
+            events.keypress('space')
+            expect(onChange).toHaveBeenLastCalledWith(
+                { fruits: ['apple'], vegetables: [] },
+                { selected: [expect.objectContaining({ value: 'apple' })], deselected: [] },
+            )
+
+            events.keypress('i')
+            expect(onChange).toHaveBeenLastCalledWith(
+                { fruits: ['banana'], vegetables: ['carrot'] },
+                {
+                    selected: [
+                        expect.objectContaining({ value: 'banana' }),
+                        expect.objectContaining({ value: 'carrot' }),
+                    ],
+                    deselected: [expect.objectContaining({ value: 'apple' })],
+                },
+            )
+            expect(onChange).toHaveBeenCalledTimes(2)
+
+            events.keypress('enter')
+            await answer
+        })
+
+        it('should call onCursorChange with the active choice and its group', async () => {
+            const onCursorChange = vi.fn()
+            const { answer, events } = await render(groupedCheckbox, { message: 'Select', groups, onCursorChange })
+
+            events.keypress('down')
+            expect(onCursorChange).toHaveBeenLastCalledWith(
+                expect.objectContaining({ value: 'apple' }),
+                expect.objectContaining({ key: 'fruits' }),
+            )
+
+            events.keypress('space')
+            expect(onCursorChange).toHaveBeenCalledTimes(1)
+
+            events.keypress('tab')
+            expect(onCursorChange).toHaveBeenLastCalledWith(undefined, expect.objectContaining({ key: 'vegetables' }))
+
+            events.keypress('enter')
+            await answer
+        })
+
+        it('should call onSearchChange as the query changes', async () => {
+            const onSearchChange = vi.fn()
+            const { answer, events } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                searchable: true,
+                onSearchChange,
+            })
+
+            events.type('ap')
+            events.keypress('backspace')
+            events.keypress('down')
+
+            expect(onSearchChange.mock.calls).toEqual([['a'], ['ap'], ['a']])
+
+            events.keypress('enter')
+            await answer
+        })
+
+        it('should show an error thrown by a callback and keep the prompt running', async () => {
+            const { answer, events, getScreen } = await render(groupedCheckbox, {
+                message: 'Select',
+                groups,
+                onChange: () => {
+                    throw new Error('Price lookup failed')
+                },
+            })
+
+            events.keypress('down')
+            events.keypress('space')
+            expect(getScreen()).toContain('Price lookup failed')
+            expect(getScreen()).toContain('◉ Apple')
+
+            events.keypress('down')
+            expect(getScreen()).not.toContain('Price lookup failed')
+
+            events.keypress('enter')
+            await expect(answer).resolves.toEqual({ fruits: ['apple'], vegetables: [] })
+        })
+    })
 })
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import {
+    deleteBackward,
+    deleteForward,
+    deleteWordBackward,
+    insertText,
+    isPrintable,
+    moveCursor,
+} from '../src/query-input.js'
+
+describe('isPrintable', () => {
+    it('should accept any Unicode text but not control sequences', () => {
+        expect(isPrintable('É')).toBe(true)
+        expect(isPrintable('日')).toBe(true)
+        expect(isPrintable('👩‍💻')).toBe(true)
+        expect(isPrintable('\t')).toBe(false)
+        expect(isPrintable('\u001b[D')).toBe(false)
+        expect(isPrintable('')).toBe(false)
+    })
+})
+
+describe('insertText', () => {
+    it('should insert at the cursor', () => {
+        expect(insertText({ query: 'cafe', cursor: 2 }, 'x')).toEqual({ query: 'caxfe', cursor: 3 })
+    })
+
+    it('should turn line breaks into spaces and drop control characters', () => {
+        expect(insertText({ query: '', cursor: 0 }, 'a\r\nb\u0007')).toEqual({ query: 'a b', cursor: 3 })
+    })
+})
+
+describe('moveCursor', () => {
+    it('should move over whole characters', () => {
+        const query = 'é🚀x'
+
+        expect(moveCursor({ query, cursor: 0 }, 1)).toEqual({ query, cursor: 2 })
+        expect(moveCursor({ query, cursor: 2 }, 1)).toEqual({ query, cursor: 4 })
+        expect(moveCursor({ query, cursor: 4 }, -1)).toEqual({ query, cursor: 2 })
+    })
+
+    it('should stop at the ends of the query', () => {
+        expect(moveCursor({ query: 'ab', cursor: 0 }, -1).cursor).toBe(0)
+        expect(moveCursor({ query: 'ab', cursor: 2 }, 1).cursor).toBe(2)
+    })
+})
+
+describe('deleting', () => {
+    it('should delete whole characters around the cursor', () => {
+        expect(deleteBackward({ query: 'go🚀', cursor: 4 })).toEqual({ query: 'go', cursor: 2 })
+        expect(deleteBackward({ query: 'go', cursor: 0 })).toEqual({ query: 'go', cursor: 0 })
+        expect(deleteForward({ query: '🚀go', cursor: 0 })).toEqual({ query: 'go', cursor: 0 })
+    })
+
+    it('should delete the word before the cursor', () => {
+        expect(deleteWordBackward({ query: 'group:db legacy  ', cursor: 17 })).toEqual({
+            query: 'group:db ',
+            cursor: 9,
+        })
+        expect(deleteWordBackward({ query: 'foo bar', cursor: 3 })).toEqual({ query: ' bar', cursor: 0 })
+    })
+})
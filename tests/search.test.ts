@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest'
+import {
+    formatQueryTerm,
+    fuzzyMatch,
+    getNameMatchIndices,
+    highlightMatches,
+    matchChoice,
+    matchQuery,
+    matchText,
+    parseSearchQuery,
+    substringMatch,
+} from '../src/search.js'
+import type { NormalizedChoice } from '../src/types.js'
+
+describe('substringMatch', () => {
+    it('should match case-insensitively and report matched positions', () => {
+        expect(substringMatch('PostgreSQL', 'sql')).toEqual({ score: 43, indices: [7, 8, 9] })
+        expect(substringMatch('PostgreSQL', 'pgsql')).toBeUndefined()
+    })
+
+    it('should rank prefix matches above later ones', () => {
+        expect(substringMatch('Apple', 'ap')!.score).toBeGreaterThan(substringMatch('Grape', 'ap')!.score)
+    })
+})
+
+describe('fuzzyMatch', () => {
+    it('should match characters in order with gaps', () => {
+        expect(fuzzyMatch('PostgreSQL', 'pgsql')?.indices).toEqual([0, 4, 7, 8, 9])
+        expect(fuzzyMatch('PostgreSQL', 'lqs')).toBeUndefined()
+    })
+
+    it('should rank consecutive and word-start matches higher', () => {
+        const consecutive = fuzzyMatch('mysql-client', 'sql')!
+        const scattered = fuzzyMatch('sequel', 'sql')!
+        expect(consecutive.score).toBeGreaterThan(scattered.score)
+
+        const wordStart = fuzzyMatch('node-package-manager', 'npm')!
+        const midWord = fuzzyMatch('unpamper', 'npm')!
+        expect(wordStart.score).toBeGreaterThan(midWord.score)
+    })
+
+    it('should pick the best alignment among starting points', () => {
+        expect(fuzzyMatch('xaxb ab', 'ab')?.indices).toEqual([5, 6])
+    })
+})
+
+describe('matchText', () => {
+    it('should use substring matching by default', () => {
+        expect(matchText('PostgreSQL', 'pgsql')).toBeUndefined()
+        expect(matchText('PostgreSQL', 'pgsql', 'fuzzy')).toBeDefined()
+    })
+})
+
+describe('highlightMatches', () => {
+    it('should style each run of matched characters', () => {
+        expect(highlightMatches('PostgreSQL', [0, 4, 7, 8, 9], (text) => `[${text}]`)).toBe('[P]ost[g]re[SQL]')
+    })
+
+    it('should return the text unchanged without matches', () => {
+        expect(highlightMatches('Apple', [], (text) => `[${text}]`)).toBe('Apple')
+    })
+})
+
+describe('matchChoice', () => {
+    const choice: NormalizedChoice<string> = {
+        value: 'pg',
+        name: 'PostgreSQL',
+        short: 'Postgres',
+        description: 'Relational database',
+        keywords: ['psql', 'relational'],
+        disabled: false,
+        checked: false,
+        groupKey: 'db',
+        groupIndex: 0,
+        indexInGroup: 0,
+    }
+
+    it('should search name and keywords by default', () => {
+        expect(matchChoice(choice, 'postgre')?.indices).toEqual([0, 1, 2, 3, 4, 5, 6])
+        expect(matchChoice(choice, 'psql')?.indices).toEqual([])
+        expect(matchChoice(choice, 'database')).toBeUndefined()
+    })
+
+    it('should only search the given fields', () => {
+        expect(matchChoice(choice, 'database', { fields: ['description'] })).toBeDefined()
+        expect(matchChoice(choice, 'pg', { fields: ['value'] })).toBeDefined()
+        expect(matchChoice(choice, 'postgres', { fields: ['short'] })).toBeDefined()
+        expect(matchChoice(choice, 'postgre', { fields: ['keywords'] })).toBeUndefined()
+    })
+
+    it('should match group labels', () => {
+        expect(
+            matchChoice(choice, 'backend', { fields: ['group'], groupLabels: ['Backend', 'Databases'] }),
+        ).toBeDefined()
+        expect(matchChoice(choice, 'backend', { fields: ['group'] })).toBeUndefined()
+    })
+
+    it('should rank name matches above other fields', () => {
+        const other = { ...choice, name: 'MySQL', keywords: ['postgre'] }
+
+        expect(matchChoice(choice, 'postgre')!.score).toBeGreaterThan(matchChoice(other, 'postgre')!.score)
+    })
+})
+
+describe('parseSearchQuery', () => {
+    it('should parse field prefixes, negation and quoted phrases', () => {
+        expect(parseSearchQuery('group:db checked:no -legacy "read replica"')).toEqual([
+            { field: 'group', value: 'db', negated: false },
+            { field: 'checked', value: 'no', negated: false },
+            { field: undefined, value: 'legacy', negated: true },
+            { field: undefined, value: 'read replica', negated: false },
+        ])
+        expect(parseSearchQuery('-tag:"key value"')).toEqual([{ field: 'tag', value: 'key value', negated: true }])
+    })
+
+    it('should keep unknown prefixes as plain text', () => {
+        expect(parseSearchQuery('http://host')).toEqual([{ field: undefined, value: 'http://host', negated: false }])
+    })
+
+    it('should reject invalid syntax', () => {
+        expect(parseSearchQuery('"read replica')).toBeUndefined()
+        expect(parseSearchQuery('read"replica"')).toBeUndefined()
+        expect(parseSearchQuery('checked:maybe')).toBeUndefined()
+    })
+
+    it('should round-trip terms through formatQueryTerm', () => {
+        expect(parseSearchQuery('-group:"data stores" checked:yes')!.map(formatQueryTerm)).toEqual([
+            '-group:"data stores"',
+            'checked:yes',
+        ])
+    })
+})
+
+describe('matchQuery', () => {
+    const choice: NormalizedChoice<string> = {
+        value: 'pg',
+        name: 'PostgreSQL',
+        short: 'Postgres',
+        description: 'Relational database',
+        keywords: ['sql'],
+        disabled: false,
+        checked: false,
+        groupKey: 'backend/db',
+        groupIndex: 0,
+        indexInGroup: 0,
+    }
+    const match = (query: string) => matchQuery(choice, parseSearchQuery(query)!, { groupLabels: ['Backend', 'Data'] })
+
+    it('should require every term to match', () => {
+        expect(match('post group:db checked:no tag:sql')).toBeDefined()
+        expect(match('post group:frontend')).toBeUndefined()
+        expect(match('checked:yes')).toBeUndefined()
+        expect(match('description:relational value:pg disabled:no')).toBeDefined()
+    })
+
+    it('should match group labels and keys', () => {
+        expect(match('group:data')).toBeDefined()
+        expect(match('group:backend/db')).toBeDefined()
+    })
+
+    it('should exclude choices matching negated terms', () => {
+        expect(match('-post')).toBeUndefined()
+        expect(match('-legacy')).toBeDefined()
+    })
+
+    it('should ignore terms without a value', () => {
+        expect(match('post group: -')).toBeDefined()
+    })
+
+    it('should combine the name indices of the positive terms', () => {
+        expect(match('post name:sql')?.indices).toEqual([0, 1, 2, 3, 7, 8, 9])
+    })
+})
+
+describe('getNameMatchIndices', () => {
+    it('should highlight plain queries and name terms, but not filters', () => {
+        expect(getNameMatchIndices('PostgreSQL', 'sql')).toEqual([7, 8, 9])
+        expect(getNameMatchIndices('PostgreSQL', 'group:db sql -old', { syntax: true })).toEqual([7, 8, 9])
+        expect(getNameMatchIndices('PostgreSQL', 'group:db', { syntax: true })).toEqual([])
+    })
+})
@@ -1,19 +1,42 @@
 import { describe, expect, it } from 'vitest'
-import type { Group, NormalizedChoice, NormalizedGroup } from '../src/types.js'
+import type { Group, Item, NormalizedChoice, NormalizedGroup } from '../src/types.js'
 import { isGroupHeader } from '../src/types.js'
 import {
+    applyGroupLimits,
     buildSelections,
+    carryOverSelections,
+    checkRadioChoice,
+    createChoiceMatcher,
+    createSearchCache,
+    describeGroupLimits,
+    diffSelections,
     filterBySearch,
+    findChoiceByPrefix,
     findFirstSelectableIndex,
+    findGroupBelowMin,
+    findItemIndex,
+    findLastSelectableIndex,
+    findNextChoiceIndex,
     findNextSelectableIndex,
+    findSelectableIndexBy,
+    getChoicesInRange,
+    getChoicesLoaders,
     getCurrentGroup,
+    getGroupSelectionState,
     getGroupStats,
+    getParentGroup,
+    getSiblingGroups,
     invertAll,
     invertGroup,
+    isSameChoice,
     isSelectableItem,
     normalizeGroups,
+    recordSelectionChange,
+    redoSelectionChange,
+    retainSelectedChoices,
     toggleAll,
     toggleGroup,
+    undoSelectionChange,
 } from '../src/utils.js'
 import { Separator } from '@inquirer/core'
 
@@ -280,8 +303,8 @@ describe('filterBySearch', () => {
 describe('getCurrentGroup', () => {
     it('should find the group containing the cursor', () => {
         const groups: NormalizedGroup<string>[] = [
-            { key: 'a', label: 'A', startIndex: 0, endIndex: 2, choices: [] },
-            { key: 'b', label: 'B', startIndex: 3, endIndex: 5, choices: [] },
+            { key: 'a', label: 'A', depth: 0, startIndex: 0, endIndex: 2, choices: [] },
+            { key: 'b', label: 'B', depth: 0, startIndex: 3, endIndex: 5, choices: [] },
         ]
 
         expect(getCurrentGroup(0, groups)?.key).toBe('a')
@@ -291,7 +314,9 @@ describe('getCurrentGroup', () => {
     })
 
     it('should return undefined when cursor is out of bounds', () => {
-        const groups: NormalizedGroup<string>[] = [{ key: 'a', label: 'A', startIndex: 0, endIndex: 2, choices: [] }]
+        const groups: NormalizedGroup<string>[] = [
+            { key: 'a', label: 'A', depth: 0, startIndex: 0, endIndex: 2, choices: [] },
+        ]
 
         expect(getCurrentGroup(10, groups)).toBeUndefined()
     })
@@ -334,6 +359,7 @@ describe('toggleGroup', () => {
         const group: NormalizedGroup<string> = {
             key: 'g1',
             label: 'G1',
+            depth: 0,
             startIndex: 0,
             endIndex: 1,
             choices: choices.slice(0, 2),
@@ -346,6 +372,30 @@ describe('toggleGroup', () => {
         expect(result[2]?.checked).toBe(false) // Should not change other groups
     })
 
+    it('should be undoable', () => {
+        const { flatChoices, normalizedGroups } = normalizeGroups<string>([
+            {
+                key: 'g1',
+                label: 'G1',
+                choices: [
+                    { value: 'a', name: 'A' },
+                    { value: 'b', name: 'B', checked: true },
+                ],
+            },
+            { key: 'g2', label: 'G2', choices: [{ value: 'c', name: 'C' }] },
+        ])
+        const choices = flatChoices.filter(
+            (c): c is NormalizedChoice<string> => !Separator.isSeparator(c) && !isGroupHeader(c),
+        )
+        const toggled = toggleGroup(choices, normalizedGroups[0]!, true)
+
+        const history = recordSelectionChange({ undo: [], redo: [] }, choices, toggled, 'select')
+        const undone = undoSelectionChange(history, toggled)
+
+        expect(history.undo.map((change) => change.label)).toEqual(['select A'])
+        expect(undone?.choices.map((c) => c.checked)).toEqual([false, true, false])
+    })
+
     it('should not toggle disabled choices', () => {
         const choices: NormalizedChoice<string>[] = [
             {
@@ -369,7 +419,7 @@ describe('toggleGroup', () => {
                 indexInGroup: 1,
             },
         ]
-        const group: NormalizedGroup<string> = { key: 'g1', label: 'G1', startIndex: 0, endIndex: 1, choices }
+        const group: NormalizedGroup<string> = { key: 'g1', label: 'G1', depth: 0, startIndex: 0, endIndex: 1, choices }
 
         const result = toggleGroup(choices, group, true)
 
@@ -402,7 +452,7 @@ describe('invertGroup', () => {
                 indexInGroup: 1,
             },
         ]
-        const group: NormalizedGroup<string> = { key: 'g1', label: 'G1', startIndex: 0, endIndex: 1, choices }
+        const group: NormalizedGroup<string> = { key: 'g1', label: 'G1', depth: 0, startIndex: 0, endIndex: 1, choices }
 
         const result = invertGroup(choices, group)
 
@@ -484,6 +534,30 @@ describe('invertAll', () => {
         expect(result[0]?.checked).toBe(false)
         expect(result[1]?.checked).toBe(true)
     })
+
+    it('should be undoable and redoable', () => {
+        const { flatChoices } = normalizeGroups<string>([
+            {
+                key: 'g1',
+                label: 'G1',
+                choices: [{ value: 'a', checked: true }, { value: 'b' }, { value: 'c', disabled: true }],
+            },
+        ])
+        const choices = flatChoices.filter(
+            (c): c is NormalizedChoice<string> => !Separator.isSeparator(c) && !isGroupHeader(c),
+        )
+        const inverted = invertAll(choices)
+
+        const history = recordSelectionChange({ undo: [], redo: [] }, choices, inverted, 'invert')
+        const undone = undoSelectionChange(history, inverted)!
+        const redone = redoSelectionChange(undone.history, undone.choices)!
+
+        expect(undone.change.label).toBe('invert 2 items')
+        expect(undone.choices).toEqual(choices)
+        expect(undone.history).toEqual({ undo: [], redo: history.undo })
+        expect(redone.choices).toEqual(inverted)
+        expect(redone.history).toEqual(history)
+    })
 })
 
 describe('buildSelections', () => {
@@ -521,8 +595,8 @@ describe('buildSelections', () => {
             },
         ]
         const groups: NormalizedGroup<string>[] = [
-            { key: 'g1', label: 'G1', startIndex: 0, endIndex: 1, choices: choices.slice(0, 2) },
-            { key: 'g2', label: 'G2', startIndex: 2, endIndex: 2, choices: choices.slice(2) },
+            { key: 'g1', label: 'G1', depth: 0, startIndex: 0, endIndex: 1, choices: choices.slice(0, 2) },
+            { key: 'g2', label: 'G2', depth: 0, startIndex: 2, endIndex: 2, choices: choices.slice(2) },
         ]
 
         const result = buildSelections(choices, groups)
@@ -546,7 +620,9 @@ describe('buildSelections', () => {
                 indexInGroup: 0,
             },
         ]
-        const groups: NormalizedGroup<string>[] = [{ key: 'g1', label: 'G1', startIndex: 0, endIndex: 0, choices }]
+        const groups: NormalizedGroup<string>[] = [
+            { key: 'g1', label: 'G1', depth: 0, startIndex: 0, endIndex: 0, choices },
+        ]
 
         const result = buildSelections(choices, groups)
 
@@ -554,6 +630,24 @@ describe('buildSelections', () => {
     })
 })
 
+describe('diffSelections', () => {
+    const { flatChoices } = normalizeGroups([
+        { key: 'g', label: 'G', choices: [{ value: 'a', checked: true }, { value: 'b' }, { value: 'c' }] },
+    ])
+    const choices = flatChoices.filter((item): item is NormalizedChoice<string> => !isGroupHeader(item))
+
+    it('should list the newly selected and deselected choices', () => {
+        const next = choices.map((choice) => ({ ...choice, checked: choice.value !== 'a' }))
+
+        expect(diffSelections(choices, next)).toEqual({ selected: [next[1], next[2]], deselected: [choices[0]] })
+    })
+
+    it('should find no changes between the same choices', () => {
+        expect(diffSelections(choices, choices)).toEqual({ selected: [], deselected: [] })
+        expect(diffSelections(choices, [...choices])).toEqual({ selected: [], deselected: [] })
+    })
+})
+
 describe('isSelectableItem', () => {
     it('should return true for enabled choices', () => {
         const choice: NormalizedChoice<string> = {
@@ -773,7 +867,7 @@ describe('getGroupStats', () => {
                 indexInGroup: 2,
             },
         ]
-        const group: NormalizedGroup<string> = { key: 'g1', label: 'G1', startIndex: 0, endIndex: 2, choices }
+        const group: NormalizedGroup<string> = { key: 'g1', label: 'G1', depth: 0, startIndex: 0, endIndex: 2, choices }
 
         const stats = getGroupStats(group)
 
@@ -781,3 +875,885 @@ describe('getGroupStats', () => {
         expect(stats.total).toBe(2) // Excludes disabled
     })
 })
+
+describe('getGroupSelectionState', () => {
+    it('should tell whether none, some or all items are selected', () => {
+        expect(getGroupSelectionState({ selected: 0, total: 3 })).toBe('none')
+        expect(getGroupSelectionState({ selected: 2, total: 3 })).toBe('partial')
+        expect(getGroupSelectionState({ selected: 3, total: 3 })).toBe('all')
+        expect(getGroupSelectionState({ selected: 0, total: 0 })).toBe('none')
+    })
+})
+
+describe('nested groups', () => {
+    const createNestedData = () => {
+        const groups: Group<string>[] = [
+            {
+                key: 'us',
+                label: 'US',
+                choices: [{ value: 'global-lb', name: 'Global LB' }],
+                groups: [
+                    {
+                        key: 'prod',
+                        label: 'Production',
+                        choices: [
+                            { value: 'api', name: 'API' },
+                            { value: 'web', name: 'Web' },
+                        ],
+                    },
+                    {
+                        key: 'staging',
+                        label: 'Staging',
+                        choices: [{ value: 'api', name: 'API', checked: true }],
+                    },
+                ],
+            },
+            {
+                key: 'eu',
+                label: 'EU',
+                groups: [
+                    {
+                        key: 'prod',
+                        label: 'Production',
+                        choices: [{ value: 'web', name: 'Web' }],
+                    },
+                ],
+            },
+        ]
+        return normalizeGroups(groups)
+    }
+
+    it('should flatten nested groups depth-first with full path keys', () => {
+        const { normalizedGroups, flatChoices } = createNestedData()
+
+        expect(normalizedGroups.map((g) => [g.key, g.depth, g.parentKey])).toEqual([
+            ['us', 0, undefined],
+            ['us/prod', 1, 'us'],
+            ['us/staging', 1, 'us'],
+            ['eu', 0, undefined],
+            ['eu/prod', 1, 'eu'],
+        ])
+
+        // 5 headers + 5 choices
+        expect(flatChoices).toHaveLength(10)
+        expect(flatChoices[0]).toMatchObject({ type: 'group-header', groupKey: 'us', depth: 0 })
+        expect(flatChoices[1]).toMatchObject({ value: 'global-lb', groupKey: 'us' })
+        expect(flatChoices[2]).toMatchObject({ type: 'group-header', groupKey: 'us/prod', depth: 1 })
+        expect(flatChoices[3]).toMatchObject({ value: 'api', groupKey: 'us/prod' })
+    })
+
+    it('should span the whole subtree in startIndex, endIndex and choices', () => {
+        const { normalizedGroups } = createNestedData()
+
+        expect(normalizedGroups[0]).toMatchObject({ startIndex: 0, endIndex: 6 })
+        expect(normalizedGroups[0]?.choices.map((c) => c.value)).toEqual(['global-lb', 'api', 'web', 'api'])
+        expect(normalizedGroups[1]).toMatchObject({ startIndex: 2, endIndex: 4 })
+        expect(normalizedGroups[3]).toMatchObject({ startIndex: 7, endIndex: 9 })
+    })
+
+    it('should keep ancestor headers of matching choices when filtering', () => {
+        const { normalizedGroups, flatChoices } = createNestedData()
+        const { filteredChoices, filteredGroups } = filterBySearch(flatChoices, normalizedGroups, 'web')
+
+        expect(filteredGroups.map((g) => g.key)).toEqual(['us', 'us/prod', 'eu', 'eu/prod'])
+        expect(filteredChoices).toHaveLength(6)
+        expect(filteredGroups[0]).toMatchObject({ startIndex: 0, endIndex: 2 })
+        expect(filteredGroups[1]).toMatchObject({ startIndex: 1, endIndex: 2 })
+        expect(filteredGroups[2]).toMatchObject({ startIndex: 3, endIndex: 5 })
+    })
+
+    it('should return the innermost group containing the cursor', () => {
+        const { normalizedGroups } = createNestedData()
+
+        expect(getCurrentGroup(1, normalizedGroups)?.key).toBe('us')
+        expect(getCurrentGroup(3, normalizedGroups)?.key).toBe('us/prod')
+        expect(getCurrentGroup(6, normalizedGroups)?.key).toBe('us/staging')
+        expect(getCurrentGroup(9, normalizedGroups)?.key).toBe('eu/prod')
+    })
+
+    it('should find parent and sibling groups', () => {
+        const { normalizedGroups } = createNestedData()
+        const usProd = normalizedGroups[1]!
+
+        expect(getParentGroup(usProd, normalizedGroups)?.key).toBe('us')
+        expect(getParentGroup(normalizedGroups[0]!, normalizedGroups)).toBeUndefined()
+        expect(getSiblingGroups(usProd, normalizedGroups).map((g) => g.key)).toEqual(['us/prod', 'us/staging'])
+        expect(getSiblingGroups(normalizedGroups[0]!, normalizedGroups).map((g) => g.key)).toEqual(['us', 'eu'])
+    })
+
+    it('should toggle the whole subtree of a group', () => {
+        const { normalizedGroups, flatChoices } = createNestedData()
+        const choices = flatChoices.filter(
+            (c): c is NormalizedChoice<string> => !Separator.isSeparator(c) && !isGroupHeader(c),
+        )
+
+        const result = toggleGroup(choices, normalizedGroups[0]!, true)
+
+        expect(result.filter((c) => c.checked).map((c) => c.groupKey)).toEqual([
+            'us',
+            'us/prod',
+            'us/prod',
+            'us/staging',
+        ])
+    })
+
+    it('should key selections by full group path', () => {
+        const { normalizedGroups, flatChoices } = createNestedData()
+        const choices = flatChoices.filter(
+            (c): c is NormalizedChoice<string> => !Separator.isSeparator(c) && !isGroupHeader(c),
+        )
+
+        expect(buildSelections(choices, normalizedGroups)).toEqual({
+            us: [],
+            'us/prod': [],
+            'us/staging': ['api'],
+            eu: [],
+            'eu/prod': [],
+        })
+    })
+})
+
+describe('collapsed groups', () => {
+    const createTestData = () =>
+        normalizeGroups<string>([
+            {
+                key: 'fruits',
+                label: 'Fruits',
+                collapsed: true,
+                choices: [
+                    { value: 'apple', name: 'Apple' },
+                    { value: 'banana', name: 'Banana', checked: true },
+                ],
+            },
+            {
+                key: 'vegetables',
+                label: 'Vegetables',
+                choices: [{ value: 'carrot', name: 'Carrot' }],
+            },
+        ])
+
+    it('should carry the initial collapsed state on groups and headers', () => {
+        const { normalizedGroups, flatChoices } = createTestData()
+
+        expect(normalizedGroups[0]?.collapsed).toBe(true)
+        expect(normalizedGroups[1]?.collapsed).toBe(false)
+        expect(flatChoices[0]).toMatchObject({ type: 'group-header', collapsed: true })
+    })
+
+    it('should only show the header of collapsed groups while keeping their choices for stats', () => {
+        const { normalizedGroups, flatChoices } = createTestData()
+        const { filteredChoices, filteredGroups } = filterBySearch(
+            flatChoices,
+            normalizedGroups,
+            '',
+            new Set(['fruits']),
+        )
+
+        // Fruits header, Vegetables header, Carrot
+        expect(filteredChoices).toHaveLength(3)
+        expect(filteredGroups[0]).toMatchObject({ collapsed: true, startIndex: 0, endIndex: 0 })
+        expect(getGroupStats(filteredGroups[0]!)).toEqual({ selected: 1, total: 2 })
+        expect(filteredGroups[1]).toMatchObject({ startIndex: 1, endIndex: 2 })
+    })
+
+    it('should expand collapsed groups that contain search matches', () => {
+        const { normalizedGroups, flatChoices } = createTestData()
+        const { filteredChoices, filteredGroups } = filterBySearch(
+            flatChoices,
+            normalizedGroups,
+            'app',
+            new Set(['fruits']),
+        )
+
+        expect(filteredChoices).toHaveLength(2)
+        expect(filteredGroups[0]?.collapsed).toBe(false)
+        expect(filteredChoices[1]).toMatchObject({ value: 'apple' })
+    })
+
+    it('should find headers and choices in a re-filtered list', () => {
+        const { normalizedGroups, flatChoices } = createTestData()
+        const { filteredChoices } = filterBySearch(flatChoices, normalizedGroups, '', new Set(['fruits']))
+
+        expect(findItemIndex(filteredChoices, flatChoices[3]!)).toBe(1) // Vegetables header
+        expect(findItemIndex(filteredChoices, flatChoices[4]!)).toBe(2) // Carrot
+        expect(findItemIndex(filteredChoices, flatChoices[1]!)).toBe(-1) // Apple is hidden
+    })
+})
+
+describe('group limits', () => {
+    const createTestData = () =>
+        normalizeGroups<string>([
+            {
+                key: 'db',
+                label: 'Databases',
+                max: 2,
+                choices: [{ value: 'pg', checked: true }, { value: 'mysql' }, { value: 'sqlite' }],
+            },
+            {
+                key: 'region',
+                label: 'Region',
+                mode: 'single',
+                min: 1,
+                choices: [{ value: 'us' }, { value: 'eu' }],
+            },
+        ])
+
+    const getChoices = (items: ReturnType<typeof createTestData>['flatChoices']) =>
+        items.filter((c): c is NormalizedChoice<string> => !Separator.isSeparator(c) && !isGroupHeader(c))
+
+    it('should resolve single mode to a max of 1', () => {
+        const { normalizedGroups } = createTestData()
+
+        expect(normalizedGroups[0]).toMatchObject({ max: 2 })
+        expect(normalizedGroups[1]).toMatchObject({ min: 1, max: 1 })
+    })
+
+    it('should accept new selections in order until a group is full', () => {
+        const { normalizedGroups, flatChoices } = createTestData()
+        const previous = getChoices(flatChoices)
+
+        const { choices, exceededGroup } = applyGroupLimits(previous, toggleAll(previous, true), normalizedGroups)
+
+        expect(choices.filter((c) => c.checked).map((c) => c.value)).toEqual(['pg', 'mysql', 'us'])
+        expect(exceededGroup?.key).toBe('db')
+    })
+
+    it('should always allow unchecking', () => {
+        const { normalizedGroups, flatChoices } = createTestData()
+        const previous = getChoices(flatChoices)
+
+        const { choices, exceededGroup } = applyGroupLimits(previous, invertAll(previous), normalizedGroups)
+
+        expect(choices.find((c) => c.value === 'pg')?.checked).toBe(false)
+        expect(choices.filter((c) => c.checked).map((c) => c.value)).toEqual(['mysql', 'sqlite', 'us'])
+        expect(exceededGroup?.key).toBe('region')
+    })
+
+    it('should leave changes untouched when no group has a max', () => {
+        const { normalizedGroups, flatChoices } = normalizeGroups<string>([
+            { key: 'g', label: 'G', choices: [{ value: 'a' }, { value: 'b' }] },
+        ])
+        const previous = getChoices(flatChoices)
+        const next = toggleAll(previous, true)
+
+        expect(applyGroupLimits(previous, next, normalizedGroups)).toEqual({ choices: next })
+    })
+
+    it('should find groups below their min', () => {
+        const { normalizedGroups, flatChoices } = createTestData()
+        const choices = getChoices(flatChoices)
+
+        expect(findGroupBelowMin(choices, normalizedGroups)?.key).toBe('region')
+        expect(
+            findGroupBelowMin(
+                choices.map((c) => (c.value === 'eu' ? { ...c, checked: true } : c)),
+                normalizedGroups,
+            ),
+        ).toBeUndefined()
+    })
+
+    it('should describe group limits', () => {
+        const base: NormalizedGroup<string> = {
+            key: 'g',
+            label: 'G',
+            depth: 0,
+            startIndex: 0,
+            endIndex: 0,
+            choices: [],
+        }
+
+        expect(describeGroupLimits(base)).toBeUndefined()
+        expect(describeGroupLimits({ ...base, max: 2 })).toBe('max 2')
+        expect(describeGroupLimits({ ...base, min: 1 })).toBe('min 1')
+        expect(describeGroupLimits({ ...base, min: 1, max: 3 })).toBe('1-3')
+        expect(describeGroupLimits({ ...base, min: 1, max: 1 })).toBe('exactly 1')
+    })
+})
+
+describe('checkRadioChoice', () => {
+    it('should check the target and uncheck the other choices in its group only', () => {
+        const { flatChoices, normalizedGroups } = normalizeGroups<string>([
+            {
+                key: 'runtime',
+                label: 'Runtime',
+                type: 'radio',
+                choices: [{ value: 'node', checked: true }, { value: 'deno' }, { value: 'bun' }],
+            },
+            { key: 'tools', label: 'Tools', choices: [{ value: 'eslint', checked: true }] },
+        ])
+        const choices = flatChoices.filter(
+            (c): c is NormalizedChoice<string> => !Separator.isSeparator(c) && !isGroupHeader(c),
+        )
+
+        const result = checkRadioChoice(choices, choices[2]!)
+
+        expect(normalizedGroups[0]?.type).toBe('radio')
+        expect(normalizedGroups[1]?.type).toBe('checkbox')
+        expect(result.filter((c) => c.checked).map((c) => c.value)).toEqual(['bun', 'eslint'])
+    })
+})
+
+describe('filterBySearch options', () => {
+    const createTestData = () =>
+        normalizeGroups<string>([
+            {
+                key: 'db',
+                label: 'Databases',
+                choices: [
+                    { value: 'sequel', name: 'Sequel Pro' },
+                    { value: 'mysql', name: 'MySQL' },
+                    { value: 'postgres', name: 'PostgreSQL' },
+                ],
+            },
+        ])
+
+    it('should match fuzzily in fuzzy mode', () => {
+        const { normalizedGroups, flatChoices } = createTestData()
+
+        expect(filterBySearch(flatChoices, normalizedGroups, 'pgsql').filteredChoices).toHaveLength(0)
+
+        const { filteredChoices } = filterBySearch(flatChoices, normalizedGroups, 'pgsql', new Set(), {
+            mode: 'fuzzy',
+        })
+        expect(
+            filteredChoices.map((c) => (isGroupHeader(c) ? c.groupKey : (c as NormalizedChoice<string>).value)),
+        ).toEqual(['db', 'postgres'])
+    })
+
+    it('should order matches by score within each group when sortByScore is set', () => {
+        const { normalizedGroups, flatChoices } = createTestData()
+        const values = (items: ReturnType<typeof filterBySearch<string>>['filteredChoices']) =>
+            items.slice(1).map((c) => (c as NormalizedChoice<string>).value)
+
+        const unsorted = filterBySearch(flatChoices, normalizedGroups, 'sql', new Set(), { mode: 'fuzzy' })
+        expect(values(unsorted.filteredChoices)).toEqual(['sequel', 'mysql', 'postgres'])
+
+        const sorted = filterBySearch(flatChoices, normalizedGroups, 'sql', new Set(), {
+            mode: 'fuzzy',
+            sortByScore: true,
+        })
+        expect(values(sorted.filteredChoices)).toEqual(['mysql', 'postgres', 'sequel'])
+    })
+})
+
+describe('filterBySearch fields', () => {
+    it('should show all choices of a group whose label matches', () => {
+        const { normalizedGroups, flatChoices } = normalizeGroups<string>([
+            {
+                key: 'backend',
+                label: 'Backend',
+                groups: [{ key: 'db', label: 'Databases', choices: [{ value: 'postgres' }, { value: 'mysql' }] }],
+            },
+            { key: 'frontend', label: 'Frontend', choices: [{ value: 'react' }] },
+        ])
+
+        const { filteredGroups } = filterBySearch(flatChoices, normalizedGroups, 'backend', new Set(), {
+            fields: ['name', 'group'],
+        })
+
+        expect(filteredGroups.map((g) => g.key)).toEqual(['backend', 'backend/db'])
+        expect(filteredGroups[1]?.choices.map((c) => c.value)).toEqual(['postgres', 'mysql'])
+    })
+})
+
+describe('filterBySearch query syntax', () => {
+    const { normalizedGroups, flatChoices } = normalizeGroups<string>([
+        {
+            key: 'db',
+            label: 'Databases',
+            choices: [
+                { value: 'postgres', checked: true },
+                { value: 'mysql' },
+                { value: 'mysql-legacy', name: 'MySQL (legacy)' },
+            ],
+        },
+        { key: 'cache', label: 'Cache', choices: [{ value: 'redis' }] },
+    ])
+    const search = (query: string, syntax = true) =>
+        filterBySearch(flatChoices, normalizedGroups, query, new Set(), { syntax })
+            .filteredChoices.filter((item) => !isGroupHeader(item) && !Separator.isSeparator(item))
+            .map((item) => (item as NormalizedChoice<string>).value)
+
+    it('should filter by group, state and negation', () => {
+        expect(search('group:db checked:no -legacy')).toEqual(['mysql'])
+    })
+
+    it('should fall back to plain text for invalid syntax', () => {
+        expect(search('"mysql')).toEqual([])
+        expect(search('checked:maybe')).toEqual([])
+    })
+
+    it('should only parse the syntax when enabled', () => {
+        expect(search('-legacy', false)).toEqual([])
+        expect(search('-legacy')).toEqual(['postgres', 'mysql', 'redis'])
+    })
+})
+
+describe('filterBySearch custom filter', () => {
+    const { normalizedGroups, flatChoices } = normalizeGroups<string>([
+        {
+            key: 'deps',
+            label: 'Dependencies',
+            choices: [{ value: 'react@18.2.0' }, { value: 'react-dom@18.2.0' }, { value: 'vue@3.4.0' }],
+        },
+    ])
+    const values = (items: ReturnType<typeof filterBySearch<string>>['filteredChoices']) =>
+        items
+            .filter((item): item is NormalizedChoice<string> => !isGroupHeader(item) && !Separator.isSeparator(item))
+            .map((item) => item.value)
+
+    it('should replace the built-in matching', () => {
+        const { filteredChoices } = filterBySearch(flatChoices, normalizedGroups, '18', new Set(), {
+            filter: (choice, query, group) => group.key === 'deps' && choice.value.split('@')[1]!.startsWith(query),
+        })
+
+        expect(values(filteredChoices)).toEqual(['react@18.2.0', 'react-dom@18.2.0'])
+    })
+
+    it('should order matches by numeric ranks', () => {
+        const { filteredChoices } = filterBySearch(flatChoices, normalizedGroups, 'x', new Set(), {
+            filter: (choice) => (choice.value.startsWith('react@') ? false : choice.value.length),
+        })
+
+        expect(values(filteredChoices)).toEqual(['react-dom@18.2.0', 'vue@3.4.0'])
+    })
+})
+
+describe('async groups', () => {
+    const loadRegions = () => Promise.resolve([{ value: 'eu-west-1' }, { value: 'us-east-1' }])
+    const groups: Group<string>[] = [
+        {
+            key: 'cloud',
+            label: 'Cloud',
+            choices: [{ value: 'aws' }],
+            groups: [{ key: 'regions', label: 'Regions', choices: loadRegions }],
+        },
+    ]
+
+    it('should find the loaders by full path', () => {
+        expect([...getChoicesLoaders(groups)]).toEqual([['cloud/regions', loadRegions]])
+    })
+
+    it('should mark groups as loading until their choices are loaded', () => {
+        const loading = normalizeGroups(groups)
+        expect(loading.normalizedGroups[1]).toMatchObject({ loadStatus: 'loading', choices: [] })
+
+        const loaded = normalizeGroups(
+            groups,
+            new Map([['cloud/regions', { status: 'loaded', choices: [{ value: 'eu-west-1' }] }]]),
+        )
+        expect(loaded.normalizedGroups[1]?.loadStatus).toBeUndefined()
+        expect(loaded.normalizedGroups[0]?.choices.map((c) => c.value)).toEqual(['aws', 'eu-west-1'])
+    })
+
+    it('should keep failed groups with their error', () => {
+        const { normalizedGroups } = normalizeGroups(
+            groups,
+            new Map([['cloud/regions', { status: 'failed', error: 'Timed out' }]]),
+        )
+
+        expect(normalizedGroups[1]).toMatchObject({ loadStatus: 'failed', loadError: 'Timed out' })
+    })
+
+    it('should show groups that are loading even though they have no choices', () => {
+        const { normalizedGroups, flatChoices } = normalizeGroups(groups)
+
+        const { filteredChoices } = filterBySearch(flatChoices, normalizedGroups, 'zzz')
+
+        expect(filteredChoices).toEqual([
+            expect.objectContaining({ groupKey: 'cloud' }),
+            expect.objectContaining({ groupKey: 'cloud/regions', loadStatus: 'loading' }),
+        ])
+    })
+
+    it('should carry selections over to the loaded list of choices', () => {
+        const before = normalizeGroups(groups).flatChoices.filter(
+            (c): c is NormalizedChoice<string> => !isGroupHeader(c) && !Separator.isSeparator(c),
+        )
+        const after = normalizeGroups(
+            groups,
+            new Map([['cloud/regions', { status: 'loaded', choices: [{ value: 'eu-west-1', checked: true }] }]]),
+        ).flatChoices.filter((c): c is NormalizedChoice<string> => !isGroupHeader(c) && !Separator.isSeparator(c))
+
+        const result = carryOverSelections(
+            before.map((c) => ({ ...c, checked: true })),
+            after,
+        )
+
+        expect(result.map((c) => [c.value, c.checked])).toEqual([
+            ['aws', true],
+            ['eu-west-1', true],
+        ])
+    })
+})
+
+describe('retainSelectedChoices', () => {
+    const previous = normalizeGroups<string>([
+        {
+            key: 'lang',
+            label: 'Languages',
+            groups: [
+                { key: 'js', label: 'JavaScript', choices: [{ value: 'react', checked: true }, { value: 'vue' }] },
+            ],
+        },
+    ])
+    const selected = previous.flatChoices.filter(
+        (c): c is NormalizedChoice<string> => !isGroupHeader(c) && !Separator.isSeparator(c) && c.checked,
+    )
+
+    it('should add selected choices missing from the results', () => {
+        const groups = retainSelectedChoices<string>(
+            [{ key: 'lang', label: 'Languages', groups: [{ key: 'js', label: 'JS', choices: [{ value: 'vue' }] }] }],
+            selected,
+            previous.normalizedGroups,
+        )
+
+        expect(groups[0]?.groups?.[0]?.choices).toEqual([
+            { value: 'vue' },
+            expect.objectContaining({ value: 'react', checked: true }),
+        ])
+    })
+
+    it('should recreate groups that are not in the results', () => {
+        const groups = retainSelectedChoices<string>([], selected, previous.normalizedGroups)
+
+        expect(groups).toEqual([
+            expect.objectContaining({
+                key: 'lang',
+                label: 'Languages',
+                groups: [
+                    expect.objectContaining({
+                        key: 'js',
+                        label: 'JavaScript',
+                        choices: [expect.objectContaining({ value: 'react' })],
+                    }),
+                ],
+            }),
+        ])
+    })
+
+    it('should not duplicate choices that are in the results', () => {
+        const results = [
+            { key: 'lang', label: 'Languages', groups: [{ key: 'js', label: 'JS', choices: [{ value: 'react' }] }] },
+        ]
+
+        expect(retainSelectedChoices<string>(results, selected, previous.normalizedGroups)).toEqual(results)
+    })
+})
+
+describe('filterBySearch only selected', () => {
+    it('should only keep checked choices and their groups, on top of the search', () => {
+        const { normalizedGroups, flatChoices } = normalizeGroups<string>([
+            { key: 'a', label: 'A', choices: [{ value: 'apple', checked: true }, { value: 'avocado' }] },
+            { key: 'b', label: 'B', choices: [{ value: 'banana' }] },
+            {
+                key: 'c',
+                label: 'C',
+                choices: [
+                    { value: 'cherry', checked: true },
+                    { value: 'apricot', checked: true },
+                ],
+            },
+        ])
+
+        const all = filterBySearch(flatChoices, normalizedGroups, '', new Set(), { onlySelected: true })
+        expect(all.filteredGroups.map((g) => g.key)).toEqual(['a', 'c'])
+        expect(all.filteredGroups.flatMap((g) => g.choices.map((c) => c.value))).toEqual(['apple', 'cherry', 'apricot'])
+
+        const searched = filterBySearch(flatChoices, normalizedGroups, 'ap', new Set(), { onlySelected: true })
+        expect(searched.filteredGroups.flatMap((g) => g.choices.map((c) => c.value))).toEqual(['apple', 'apricot'])
+    })
+})
+
+describe('selection history', () => {
+    const { flatChoices } = normalizeGroups<string>([
+        {
+            key: 'g',
+            label: 'G',
+            choices: [
+                { value: 'a', name: 'A' },
+                { value: 'b', name: 'B' },
+            ],
+        },
+    ])
+    const choices = flatChoices.filter(
+        (c): c is NormalizedChoice<string> => !Separator.isSeparator(c) && !isGroupHeader(c),
+    )
+    const select = (value: string) => choices.map((c) => (c.value === value ? { ...c, checked: true } : c))
+
+    it('should not record changes that change nothing', () => {
+        const history = { undo: [], redo: [] }
+
+        expect(recordSelectionChange(history, choices, choices, 'select')).toBe(history)
+    })
+
+    it('should clear the redo history on a new change', () => {
+        const history = recordSelectionChange({ undo: [], redo: [] }, choices, select('a'), 'select')
+        const undone = undoSelectionChange(history, select('a'))!
+
+        const next = recordSelectionChange(undone.history, choices, select('b'), 'select')
+
+        expect(next.undo.map((change) => change.label)).toEqual(['select B'])
+        expect(next.redo).toEqual([])
+    })
+
+    it('should keep only the most recent changes', () => {
+        let history = recordSelectionChange({ undo: [], redo: [] }, choices, select('a'), 'select', 1)
+        history = recordSelectionChange(history, choices, select('b'), 'select', 1)
+
+        expect(history.undo.map((change) => change.label)).toEqual(['select B'])
+    })
+
+    it('should skip choices that are no longer listed', () => {
+        const history = recordSelectionChange({ undo: [], redo: [] }, choices, select('a'), 'select')
+
+        const undone = undoSelectionChange(history, select('a').slice(1))
+
+        expect(undone?.choices.map((c) => c.value)).toEqual(['b'])
+    })
+
+    it('should return undefined when there is nothing to undo or redo', () => {
+        expect(undoSelectionChange({ undo: [], redo: [] }, choices)).toBeUndefined()
+        expect(redoSelectionChange({ undo: [], redo: [] }, choices)).toBeUndefined()
+    })
+})
+
+describe('getChoicesInRange', () => {
+    it('should return the choices between two positions across group headers, in either order', () => {
+        const { flatChoices } = normalizeGroups<string>([
+            { key: 'g1', label: 'G1', choices: [{ value: 'a' }, { value: 'b' }] },
+            { key: 'g2', label: 'G2', choices: [{ value: 'c' }, { value: 'd' }] },
+        ])
+
+        const values = (from: number, to: number) => getChoicesInRange(flatChoices, from, to).map((c) => c.value)
+
+        expect(values(2, 4)).toEqual(['b', 'c'])
+        expect(values(4, 2)).toEqual(['b', 'c'])
+        expect(values(0, 0)).toEqual([])
+    })
+})
+
+describe('findSelectableIndexBy', () => {
+    const { flatChoices } = normalizeGroups<string>([
+        {
+            key: 'g1',
+            label: 'G1',
+            choices: [{ value: 'a' }, { value: 'b', disabled: true }, { value: 'c' }, { value: 'd' }],
+        },
+        { key: 'g2', label: 'G2', choices: [{ value: 'e' }, { value: 'f', disabled: true }] },
+    ])
+
+    it('should move by the given distance', () => {
+        expect(findSelectableIndexBy(flatChoices, 0, 1, 3)).toBe(3)
+        expect(findSelectableIndexBy(flatChoices, 6, -1, 3)).toBe(3)
+    })
+
+    it('should land on the closest selectable item before a disabled one', () => {
+        expect(findSelectableIndexBy(flatChoices, 0, 1, 2)).toBe(1)
+    })
+
+    it('should stop at the first or last selectable item', () => {
+        expect(findSelectableIndexBy(flatChoices, 3, 1, 10)).toBe(6)
+        expect(findSelectableIndexBy(flatChoices, 3, -1, 10)).toBe(0)
+    })
+
+    it('should wrap around from the first or last selectable item', () => {
+        expect(findSelectableIndexBy(flatChoices, 6, 1, 10)).toBe(0)
+        expect(findSelectableIndexBy(flatChoices, 0, -1, 10)).toBe(6)
+    })
+
+    it('should find the last selectable item', () => {
+        expect(findLastSelectableIndex(flatChoices)).toBe(6)
+        expect(findLastSelectableIndex([])).toBe(0)
+    })
+})
+
+describe('findNextChoiceIndex', () => {
+    it('should skip group headers and disabled choices, wrapping around', () => {
+        const { flatChoices } = normalizeGroups<string>([
+            { key: 'g1', label: 'G1', choices: [{ value: 'a' }, { value: 'b', disabled: true }] },
+            { key: 'g2', label: 'G2', choices: [{ value: 'c' }] },
+        ])
+
+        expect(findNextChoiceIndex(flatChoices, 0, 1)).toBe(1)
+        expect(findNextChoiceIndex(flatChoices, 1, 1)).toBe(4)
+        expect(findNextChoiceIndex(flatChoices, 4, 1)).toBe(1)
+        expect(findNextChoiceIndex(flatChoices, 1, -1)).toBe(4)
+    })
+})
+
+describe('findChoiceByPrefix', () => {
+    const { flatChoices } = normalizeGroups<string>([
+        {
+            key: 'fruits',
+            label: 'Fruits',
+            choices: [
+                { name: 'Banana', value: 'banana' },
+                { name: 'Blackberry', value: 'blackberry', disabled: true },
+            ],
+        },
+        { key: 'vegetables', label: 'Vegetables', choices: [{ name: 'Broccoli', value: 'broccoli' }] },
+    ])
+
+    it('should find the next choice starting with the prefix, ignoring case', () => {
+        expect(findChoiceByPrefix(flatChoices, 0, 'bro')).toBe(4)
+        expect(findChoiceByPrefix(flatChoices, 0, 'BAN')).toBe(1)
+        expect(findChoiceByPrefix(flatChoices, 0, 'x')).toBe(-1)
+    })
+
+    it('should stay on the current choice while it matches a longer prefix', () => {
+        expect(findChoiceByPrefix(flatChoices, 1, 'ba')).toBe(1)
+    })
+
+    it('should step through the choices starting with a repeated character, skipping disabled ones', () => {
+        expect(findChoiceByPrefix(flatChoices, 1, 'b')).toBe(4)
+        expect(findChoiceByPrefix(flatChoices, 4, 'bb')).toBe(1)
+    })
+})
+
+describe('choice identity', () => {
+    interface Pkg {
+        name: string
+    }
+    const pkgGroups = (): Group<Pkg>[] => [
+        { key: 'frontend', label: 'Frontend', choices: [{ value: { name: 'lodash' }, name: 'lodash' }] },
+        { key: 'backend', label: 'Backend', choices: [{ value: { name: 'lodash' }, name: 'lodash', checked: true }] },
+    ]
+    const getKey = (pkg: Pkg) => pkg.name
+    const choicesOf = <Value>(items: Item<Value>[]) =>
+        items.filter((c): c is NormalizedChoice<Value> => !Separator.isSeparator(c) && !isGroupHeader(c))
+
+    it('should key choices by their id, or by getKey', () => {
+        const { flatChoices } = normalizeGroups(
+            [{ key: 'g', label: 'G', choices: [{ value: { name: 'a' }, id: 'first' }, { value: { name: 'b' } }] }],
+            undefined,
+            { getKey },
+        )
+
+        expect(choicesOf(flatChoices).map((c) => c.key)).toEqual(['first', 'b'])
+    })
+
+    it('should report duplicate ids and keys', () => {
+        expect(() =>
+            normalizeGroups([
+                { key: 'a', label: 'A', choices: [{ value: 1, id: 'one' }] },
+                { key: 'b', label: 'B', choices: [{ value: 2, id: 'one' }] },
+            ]),
+        ).toThrow('Duplicate choice id "one"')
+        expect(() =>
+            normalizeGroups([{ key: 'g', label: 'G', choices: [{ value: 'a' }, { value: 'A' }] }], undefined, {
+                getKey: (value) => value.toLowerCase(),
+            }),
+        ).toThrow('Duplicate choice key "a" in group "g"')
+        expect(() => normalizeGroups([{ key: 'g', label: 'G', choices: [{ value: 'a' }, { value: 'a' }] }])).toThrow(
+            'Duplicate choice value "a" in group "g"',
+        )
+        expect(() => normalizeGroups(pkgGroups(), undefined, { getKey })).not.toThrow()
+    })
+
+    it('should report group keys that contain the path separator', () => {
+        expect(() => normalizeGroups([{ key: 'a/b', label: 'A/B', choices: [{ value: 'x' }] }])).toThrow(
+            'Group key "a/b" contains "/"',
+        )
+    })
+
+    it('should compare choices by group and key, or by value without keys', () => {
+        expect(
+            isSameChoice({ groupKey: 'g', value: { name: 'a' }, key: 'a' }, { groupKey: 'g', value: {}, key: 'a' }),
+        ).toBe(true)
+        expect(isSameChoice({ groupKey: 'g', value: 'a', key: 'a' }, { groupKey: 'h', value: 'a', key: 'a' })).toBe(
+            false,
+        )
+        expect(isSameChoice({ groupKey: 'g', value: 'a' }, { groupKey: 'g', value: 'a' })).toBe(true)
+        expect(isSameChoice({ groupKey: 'g', value: 'a' }, { groupKey: 'g', value: 'a', key: 'a' })).toBe(false)
+    })
+
+    it('should match choices of the same group only', () => {
+        const matches = createChoiceMatcher<string>([
+            { groupKey: 'frontend', value: 'lodash' },
+            { groupKey: 'frontend', value: 'react', key: 'r' },
+        ])
+
+        expect(matches({ groupKey: 'frontend', value: 'lodash' })).toBe(true)
+        expect(matches({ groupKey: 'backend', value: 'lodash' })).toBe(false)
+        expect(matches({ groupKey: 'frontend', value: 'preact', key: 'r' })).toBe(true)
+        expect(matches({ groupKey: 'frontend', value: 'react' })).toBe(false)
+    })
+
+    it('should carry selections over to structurally equal values with the same key', () => {
+        const previous = choicesOf(normalizeGroups(pkgGroups(), undefined, { getKey }).flatChoices)
+        const next = choicesOf(
+            normalizeGroups(
+                pkgGroups().map((group) => ({ ...group, choices: [{ value: { name: 'lodash' }, name: 'lodash' }] })),
+                undefined,
+                { getKey },
+            ).flatChoices,
+        )
+
+        expect(carryOverSelections(previous, next).map((c) => c.checked)).toEqual([false, true])
+    })
+
+    it('should not retain a selected choice twice when its value is recreated', () => {
+        const { normalizedGroups, flatChoices } = normalizeGroups(pkgGroups(), undefined, { getKey })
+        const selected = choicesOf(flatChoices).filter((c) => c.checked)
+
+        const groups = retainSelectedChoices(pkgGroups(), selected, normalizedGroups, { getKey })
+
+        expect(groups[1]?.choices).toHaveLength(1)
+    })
+})
+
+describe('search cache', () => {
+    const createTestData = () =>
+        normalizeGroups<string>([
+            { key: 'a', label: 'A', choices: [{ value: 'apple' }, { value: 'apricot' }, { value: 'avocado' }] },
+            { key: 'b', label: 'B', choices: [{ value: 'banana' }, { value: 'blueberry', checked: true }] },
+        ])
+    const valuesOf = (groups: NormalizedGroup<string>[]) => groups.flatMap((g) => g.choices.map((c) => c.value))
+
+    it('should only search the groups whose choices changed', () => {
+        const { normalizedGroups, flatChoices } = createTestData()
+        const cache = createSearchCache<string>()
+        const searched: string[] = []
+        const options = {
+            filter: (choice: NormalizedChoice<string>) => {
+                searched.push(choice.value)
+                return true
+            },
+        }
+
+        filterBySearch(flatChoices, normalizedGroups, 'a', new Set(), options, cache)
+        expect(searched).toHaveLength(5)
+
+        searched.length = 0
+        const toggled = flatChoices.map((c) =>
+            !Separator.isSeparator(c) && !isGroupHeader(c) && c.value === 'banana' ? { ...c, checked: true } : c,
+        )
+        const { filteredGroups } = filterBySearch(toggled, normalizedGroups, 'a', new Set(), options, cache)
+
+        expect(searched).toEqual(['banana', 'blueberry'])
+        expect(getGroupStats(filteredGroups[1]!)).toEqual({ selected: 2, total: 2 })
+    })
+
+    it('should narrow down the previous matches as the query is typed', () => {
+        const { normalizedGroups, flatChoices } = createTestData()
+        const cache = createSearchCache<string>()
+        const search = (query: string) =>
+            valuesOf(filterBySearch(flatChoices, normalizedGroups, query, new Set(), {}, cache).filteredGroups)
+
+        expect(search('a')).toEqual(['apple', 'apricot', 'avocado', 'banana'])
+        expect(search('ap')).toEqual(['apple', 'apricot'])
+        expect(search('apr')).toEqual(['apricot'])
+        expect(search('b')).toEqual(['banana', 'blueberry'])
+        expect(search('')).toEqual(['apple', 'apricot', 'avocado', 'banana', 'blueberry'])
+    })
+
+    it('should match the given choices themselves as well as other objects for them', () => {
+        const choices = [{ groupKey: 'a', value: 'apple' }]
+        const matches = createChoiceMatcher<string>(choices)
+
+        expect(matches(choices[0]!)).toBe(true)
+        expect(matches({ groupKey: 'a', value: 'apple' })).toBe(true)
+        expect(matches({ groupKey: 'a', value: 'avocado' })).toBe(false)
+    })
+})
@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { GroupedCheckboxConfig } from '../src/types.js'
+import { GroupedCheckboxConfigError } from '../src/errors.js'
+import { assertValidConfig, validateConfig } from '../src/validation.js'
+
+const messagesOf = (config: GroupedCheckboxConfig<unknown>) => validateConfig(config).map((issue) => issue.message)
+
+describe('validateConfig', () => {
+    it('should accept a valid config', () => {
+        expect(
+            validateConfig({
+                message: 'Select',
+                pageSize: 10,
+                groups: [
+                    { key: 'frontend', label: 'Frontend', choices: [{ value: 'lodash' }, { value: 'react' }] },
+                    { key: 'backend', label: 'Backend', choices: [{ value: 'lodash' }] },
+                ],
+            }),
+        ).toEqual([])
+    })
+
+    it('should report duplicate group keys among siblings', () => {
+        expect(
+            messagesOf({
+                message: 'Select',
+                groups: [
+                    { key: 'db', label: 'Database', choices: [{ value: 'postgres' }] },
+                    {
+                        key: 'deploy',
+                        label: 'Deployment',
+                        groups: [
+                            { key: 'db', label: 'Database', choices: [{ value: 'rds' }] },
+                            { key: 'db', label: 'Database', choices: [{ value: 'aurora' }] },
+                        ],
+                    },
+                ],
+            }),
+        ).toEqual(['Group key "deploy/db" is used more than once; each group needs its own key'])
+    })
+
+    it('should report group keys that could be the full key of a nested group', () => {
+        expect(
+            messagesOf({
+                message: 'Select',
+                groups: [
+                    { key: 'a', label: 'A', groups: [{ key: 'b', label: 'B', choices: [{ value: 'x' }] }] },
+                    { key: 'a/b', label: 'A/B', choices: [{ value: 'y' }] },
+                ],
+            }),
+        ).toEqual(['Group key "a/b" contains "/", which joins the keys of nested groups; use another key'])
+    })
+
+    it('should report choices that cannot be told apart', () => {
+        expect(
+            messagesOf({
+                message: 'Select',
+                groups: [
+                    { key: 'a', label: 'A', choices: [{ value: 1, id: 'one' }, { value: 2 }, { value: 2 }] },
+                    { key: 'b', label: 'B', choices: [{ value: 1, id: 'one' }] },
+                ],
+            }),
+        ).toEqual([
+            'Group "a" has more than one choice with value 2; give them an id or use getKey',
+            'Choice id "one" is used more than once; ids must be unique across groups',
+        ])
+
+        expect(
+            messagesOf({
+                message: 'Select',
+                getKey: (value) => (value as { name: string }).name,
+                groups: [{ key: 'g', label: 'G', choices: [{ value: { name: 'x' } }, { value: { name: 'x' } }] }],
+            }),
+        ).toEqual(['Choice key "x" is used more than once in group "g"'])
+    })
+
+    it('should report an invalid page size', () => {
+        expect(messagesOf({ message: 'Select', pageSize: 0, groups: [] })).toEqual([
+            'pageSize must be a whole number of at least 1, got 0',
+        ])
+        expect(messagesOf({ message: 'Select', pageSize: 2.5, groups: [] })).toHaveLength(1)
+    })
+
+    it('should warn about empty and disabled groups', () => {
+        expect(
+            validateConfig({
+                message: 'Select',
+                groups: [
+                    { key: 'empty', label: 'Empty', choices: [] },
+                    { key: 'locked', label: 'Locked', choices: [{ value: 'a', disabled: 'Paid plans only' }] },
+                    { key: 'open', label: 'Open', choices: [{ value: 'b' }] },
+                    { key: 'later', label: 'Later', choices: async () => [] },
+                ],
+            }),
+        ).toEqual([
+            { severity: 'warning', message: 'Group "empty" has no choices' },
+            { severity: 'warning', message: 'Every choice in group "locked" is disabled' },
+        ])
+    })
+
+    it('should warn when nothing can be selected', () => {
+        expect(
+            messagesOf({
+                message: 'Select',
+                groups: [
+                    { key: 'a', label: 'A', choices: [{ value: 'a', disabled: true }] },
+                    { key: 'b', label: 'B', choices: [{ value: 'b', disabled: true }] },
+                ],
+            }),
+        ).toEqual(['Every choice is disabled, so nothing can be selected; enable at least one choice'])
+    })
+
+    it('should skip the groups when they are replaced by results from a source', () => {
+        expect(
+            validateConfig({
+                message: 'Select',
+                groups: [{ key: 'g', label: 'G', choices: [] }],
+                source: async () => [],
+            }),
+        ).toEqual([])
+    })
+})
+
+describe('assertValidConfig', () => {
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    const emptyGroup = { message: 'Select', groups: [{ key: 'g', label: 'G', choices: [] }] }
+
+    it('should throw every error at once', () => {
+        const config = {
+            message: 'Select',
+            pageSize: -1,
+            groups: [
+                { key: 'g', label: 'G', choices: [{ value: 'a' }] },
+                { key: 'g', label: 'G', choices: [{ value: 'b' }] },
+            ],
+        }
+
+        expect(() => assertValidConfig(config)).toThrow(GroupedCheckboxConfigError)
+        expect(() => assertValidConfig(config)).toThrow(
+            'Invalid config:\n- pageSize must be a whole number of at least 1, got -1\n- Group key "g" is used more than once; each group needs its own key',
+        )
+    })
+
+    it('should return warnings without writing them out', () => {
+        const emitWarning = vi.spyOn(process, 'emitWarning')
+
+        expect(assertValidConfig(emptyGroup)).toEqual([{ severity: 'warning', message: 'Group "g" has no choices' }])
+        expect(emitWarning).not.toHaveBeenCalled()
+    })
+
+    it('should throw warnings in strict mode', () => {
+        try {
+            assertValidConfig({ ...emptyGroup, strict: true })
+            expect.unreachable()
+        } catch (error) {
+            expect(error).toBeInstanceOf(GroupedCheckboxConfigError)
+            expect((error as GroupedCheckboxConfigError).issues).toEqual([
+                { severity: 'warning', message: 'Group "g" has no choices' },
+            ])
+            expect((error as Error).message).toBe('Invalid config: Group "g" has no choices')
+        }
+    })
+})